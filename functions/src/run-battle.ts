@@ -0,0 +1,79 @@
+/**
+ * Edge Function: run-battle
+ *
+ * Runs one step of a battle using the shared TypeScript engine
+ * (src/engine/battleStep.ts). Frontend loops and calls this until isFinished.
+ * No battle state is carried between calls: every step replays the battle
+ * from the two player boards and the seed, so a client can't hand back a
+ * doctored mid-battle state. The boards are validated and rebuilt from their
+ * armies (see normalizePlayerBoard) before the battle board is made.
+ * Build with `npm run build:functions` - the bundle is written to functions/dist.
+ *
+ * Input:
+ * - matchId: string
+ * - turn: number (step number, starting at 1)
+ * - player1Id: string
+ * - player2Id: string
+ * - round: number (optional, game round - scales player damage)
+ * - player1Board, player2Board: each player's own board (the same ones on every step)
+ * - seed: battle seed
+ *
+ * Output:
+ * - updatedBoard: updated board state
+ * - events: events that occurred this step (move, attack, death, etc.)
+ * - isFinished: whether battle has ended
+ * - result: if finished, contains win/loss result
+ */
+
+import {
+  BattleStepRequest,
+  runBattleStep,
+  validateBattleStepRequest,
+} from '../../src/engine/battleStep';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export default async function runBattle(request: Request): Promise<Response> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const body = (await request.json()) as Partial<BattleStepRequest>;
+
+    const validationError = validateBattleStepRequest(body);
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400);
+    }
+
+    const stepRequest = body as BattleStepRequest;
+    console.log(
+      `[run-battle] Step ${stepRequest.turn} for match ${stepRequest.matchId.slice(0, 8)}`
+    );
+
+    const step = runBattleStep(stepRequest);
+
+    if (step.result) {
+      console.log(
+        `[run-battle] Battle finished: ${step.result.winnerId ? step.result.winnerId.slice(0, 8) + ' wins' : 'Draw'}`
+      );
+    }
+
+    return jsonResponse({ success: true, ...step }, 200);
+  } catch (error) {
+    console.error('[run-battle] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
@@ -0,0 +1,82 @@
+// =============================================
+// Battle Benchmark
+// Times a batch of seeded battles between random armies on the plain engine,
+// so changes to the battle core can be measured against each other. The
+// armies and seeds only depend on the base seed, so two runs with the same
+// arguments fight the same battles.
+//
+// Usage: npm run benchmark [-- <battles> <seed> <runs>]
+// =============================================
+
+import { BoardState, UnitTypeId, BOARD_WIDTH } from '../src/types';
+import { UNIT_DEFINITIONS } from '../src/types/units';
+import { runBattle } from '../src/engine/battle';
+import {
+  createEmptyBoard,
+  createBattleBoardFromTwo,
+  addPieceToBoard,
+  isPositionOccupied,
+} from '../src/engine/board';
+import { createPieceFromCard } from '../src/engine/shop';
+import { BattleRng, createRng, randomInt } from '../src/engine/random';
+
+const PLAYER1_ID = 'bench-player-1';
+const PLAYER2_ID = 'bench-player-2';
+
+// Random army of up to a full back half, like a mid-game board
+function createRandomArmy(ownerId: string, rng: BattleRng): BoardState {
+  let board = createEmptyBoard();
+  const unitTypes = Object.keys(UNIT_DEFINITIONS) as UnitTypeId[];
+  const count = randomInt(rng, 4, 9);
+
+  for (let i = 0; i < count; i++) {
+    const typeId = unitTypes[randomInt(rng, 0, unitTypes.length - 1)];
+    const pos = { x: randomInt(rng, 0, BOARD_WIDTH - 1), y: randomInt(rng, 3, 5) };
+    if (isPositionOccupied(pos, board)) continue;
+
+    const piece = createPieceFromCard(
+      { index: 0, typeId, cost: UNIT_DEFINITIONS[typeId].cost, traits: [], purchased: true },
+      ownerId,
+      'benchmark'
+    );
+    board = addPieceToBoard(board, piece, pos);
+  }
+
+  return board;
+}
+
+function main() {
+  const battles = Number(process.argv[2] ?? 300);
+  const baseSeed = Number(process.argv[3] ?? 1);
+  const runs = Number(process.argv[4] ?? 3);
+
+  const rng = createRng(baseSeed);
+  const setups = Array.from({ length: battles }, () => ({
+    board: createBattleBoardFromTwo(
+      createRandomArmy(PLAYER1_ID, rng),
+      PLAYER1_ID,
+      createRandomArmy(PLAYER2_ID, rng),
+      PLAYER2_ID
+    ),
+    seed: randomInt(rng, 0, 0xffffffff),
+  }));
+
+  // Best of several runs, so a busy machine skews the numbers less
+  let best = Infinity;
+  let turns = 0;
+  for (let run = 0; run < runs; run++) {
+    turns = 0;
+    const start = performance.now();
+    for (const { board, seed } of setups) {
+      turns += runBattle(board, seed).turn;
+    }
+    best = Math.min(best, performance.now() - start);
+  }
+
+  console.log(
+    `[benchmark] ${battles} battles, ${turns} turns: best of ${runs} runs ${best.toFixed(0)}ms ` +
+      `(${((best / turns) * 1000).toFixed(1)}µs per turn)`
+  );
+}
+
+main();
@@ -0,0 +1,165 @@
+// =============================================
+// Battle Parity Check
+// Runs the same seeded boards through the client engine (runBattle) and
+// through the run-battle edge function handler step by step, and fails if
+// the two produce different events or results.
+//
+// Usage: npm run check:battle-parity [-- <battles> <seed>]
+// =============================================
+
+import runBattleFunction from '../functions/src/run-battle';
+import { BoardState, BattleEvent, BattleResult, UnitTypeId, BOARD_WIDTH } from '../src/types';
+import { UNIT_DEFINITIONS } from '../src/types/units';
+import { runBattle, calculateBattleResult } from '../src/engine/battle';
+import { MAX_BATTLE_STEPS } from '../src/engine/battleStep';
+import {
+  createEmptyBoard,
+  createBattleBoardFromTwo,
+  addPieceToBoard,
+  isPositionOccupied,
+} from '../src/engine/board';
+import { createPieceFromCard } from '../src/engine/shop';
+import { rollFaction } from '../src/engine/synergy';
+import { ALL_ITEMS, equipItem } from '../src/engine/items';
+import { BattleRng, createRng, randomInt } from '../src/engine/random';
+
+const PLAYER1_ID = 'parity-player-1';
+const PLAYER2_ID = 'parity-player-2';
+
+interface Outcome {
+  events: BattleEvent[];
+  result: BattleResult;
+}
+
+// Random composition for one player, placed on their own board like a submitted player board
+function createRandomArmy(ownerId: string, rng: BattleRng): BoardState {
+  let board = createEmptyBoard();
+  const rows = [3, 4, 5];
+  const unitTypes = Object.keys(UNIT_DEFINITIONS) as UnitTypeId[];
+  const count = randomInt(rng, 2, 6);
+
+  for (let i = 0; i < count; i++) {
+    const typeId = unitTypes[randomInt(rng, 0, unitTypes.length - 1)];
+    const pos = {
+      x: randomInt(rng, 0, BOARD_WIDTH - 1),
+      y: rows[randomInt(rng, 0, rows.length - 1)],
+    };
+    if (isPositionOccupied(pos, board)) continue;
+
+    let piece = createPieceFromCard(
+      {
+        index: 0,
+        typeId,
+        cost: UNIT_DEFINITIONS[typeId].cost,
+        traits: [],
+        faction: UNIT_DEFINITIONS[typeId].faction ?? rollFaction(rng),
+        purchased: true,
+      },
+      ownerId,
+      'parity-check'
+    );
+    // Some pieces carry an item, so the edge function has item stats to rebuild
+    if (randomInt(rng, 0, 2) === 0) {
+      piece = equipItem(piece, ALL_ITEMS[randomInt(rng, 0, ALL_ITEMS.length - 1)]);
+    }
+    board = addPieceToBoard(board, piece, pos);
+  }
+
+  return board;
+}
+
+function runClient(board: BoardState, seed: number): Outcome {
+  const state = runBattle(board, seed);
+  return { events: state.events, result: calculateBattleResult(state, PLAYER1_ID, PLAYER2_ID) };
+}
+
+async function runEdgeFunction(
+  player1Board: BoardState,
+  player2Board: BoardState,
+  seed: number
+): Promise<Outcome> {
+  const events: BattleEvent[] = [];
+
+  for (let turn = 1; turn <= MAX_BATTLE_STEPS; turn++) {
+    const body = {
+      matchId: 'parity-check',
+      turn,
+      player1Id: PLAYER1_ID,
+      player2Id: PLAYER2_ID,
+      player1Board,
+      player2Board,
+      seed,
+    };
+
+    const response = await runBattleFunction(
+      new Request('http://localhost/run-battle', { method: 'POST', body: JSON.stringify(body) })
+    );
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(`Edge function failed at step ${turn}: ${JSON.stringify(data)}`);
+    }
+
+    events.push(...data.events);
+
+    if (data.isFinished) {
+      return { events, result: data.result };
+    }
+  }
+
+  throw new Error(`Edge function did not finish within ${MAX_BATTLE_STEPS} steps`);
+}
+
+async function main() {
+  const battles = Number(process.argv[2] ?? 200);
+  const baseSeed = Number(process.argv[3] ?? 1);
+  const rng = createRng(baseSeed);
+  let mismatches = 0;
+
+  // Silence the edge function's per-step logging
+  const log = console.log;
+  console.log = () => {};
+
+  for (let i = 0; i < battles; i++) {
+    const player1Board = createRandomArmy(PLAYER1_ID, rng);
+    const player2Board = createRandomArmy(PLAYER2_ID, rng);
+    const seed = randomInt(rng, 0, 0xffffffff);
+
+    // Both sides get their own JSON copy, like the real client/server split. The client builds
+    // the battle board the way real matches do, the edge function from the boards it is sent.
+    const client = runClient(
+      createBattleBoardFromTwo(
+        JSON.parse(JSON.stringify(player1Board)),
+        PLAYER1_ID,
+        JSON.parse(JSON.stringify(player2Board)),
+        PLAYER2_ID
+      ),
+      seed
+    );
+    const edge = await runEdgeFunction(
+      JSON.parse(JSON.stringify(player1Board)),
+      JSON.parse(JSON.stringify(player2Board)),
+      seed
+    );
+
+    if (JSON.stringify(client) !== JSON.stringify(edge)) {
+      mismatches++;
+      console.error(`[parity] Battle ${i} (seed ${seed}) differs between client and edge function`);
+      console.error('  client:', JSON.stringify(client.result));
+      console.error('  edge:  ', JSON.stringify(edge.result));
+    }
+  }
+
+  console.log = log;
+
+  if (mismatches > 0) {
+    console.error(`[parity] ${mismatches}/${battles} battles differ`);
+    process.exit(1);
+  }
+
+  console.log(`[parity] ${battles} battles identical between client engine and edge function`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,1369 @@
+// =============================================
+// Battle Regression Checks
+// Small hand-built scenarios for rules that have broken before. Each check
+// builds its boards the way real matches do and throws if the engine gets
+// the rule wrong.
+//
+// Usage: npm run check:battle-regressions
+// =============================================
+
+import {
+  BattleResult,
+  BoardState,
+  CommanderId,
+  DamageBreakdownItem,
+  FactionId,
+  ItemId,
+  Piece,
+  Player,
+  Position,
+  UnitTypeId,
+  REFRESH_COST,
+  STAR_UPGRADES,
+} from '../src/types';
+import { UNIT_DEFINITIONS } from '../src/types/units';
+import {
+  initializeBattle,
+  simulateTurn,
+  runBattle,
+  calculateBattleResult,
+  getOvertimeAttackBonus,
+  MAX_BATTLE_TURNS,
+  OVERTIME_ATTACK_INTERVAL,
+  REGULATION_TURNS,
+} from '../src/engine/battle';
+import {
+  createEmptyBoard,
+  createBattleBoardFromTwo,
+  addPieceToBoard,
+  getAlivePiecesByOwner,
+  getDistance,
+  getPiecePosition,
+  isPositionOccupied,
+  positionToKey,
+} from '../src/engine/board';
+import { createPieceFromCard, mergePieces } from '../src/engine/shop';
+import {
+  applyItemStatEffects,
+  equipItem,
+  getItems,
+  getMergeOverflowItems,
+  MAX_ITEMS_PER_PIECE,
+} from '../src/engine/items';
+import { findTargetToApproach } from '../src/engine/targeting';
+import {
+  applyStatusEffect,
+  getOnHitStatusEffects,
+  tickStatusEffects,
+  STATUS_EFFECT_DEFINITIONS,
+} from '../src/engine/statusEffects';
+import { generateTerrainLayout } from '../src/engine/terrain';
+import {
+  normalizePlayerBoard,
+  runBattleStep,
+  validateBattleStepRequest,
+} from '../src/engine/battleStep';
+import { createRng, nextRandom } from '../src/engine/random';
+import {
+  applySynergyBonuses,
+  calculateSynergies,
+  getSynergyProgress,
+  rollFaction,
+  wouldActivateSynergy,
+  FACTION_SYNERGY_DEFINITIONS,
+} from '../src/engine/synergy';
+import { buildReplayFrames, createBattleReplay } from '../src/engine/replay';
+import {
+  getPveWave,
+  runPveBattle,
+  OPENING_PVE_WAVES,
+  PERIODIC_PVE_WAVES,
+  PVE_ROUND_INTERVAL,
+  PVE_PLAYER_ID,
+  PVE_WAVES,
+} from '../src/engine/pve';
+import { calculatePieceStats } from '../src/engine/upgrades';
+import {
+  calculateRoundIncome,
+  calculateSellPrice,
+  getSellRefund,
+  PLAYER_DAMAGE_CONFIG,
+} from '../src/engine/economy';
+import { getRoundStartRefreshCost } from '../src/engine/commanders';
+import { planStrafeRun, STRAFE_BASE_LENGTH } from '../src/engine/strafing';
+import {
+  OBSTACLE_BASE_DURATION,
+  OBSTACLE_DEFINITIONS,
+  OBSTACLE_DURATION_STEP,
+} from '../src/engine/obstacles';
+
+const PLAYER1_ID = 'regression-player-1';
+const PLAYER2_ID = 'regression-player-2';
+
+interface ArmyUnit {
+  typeId: UnitTypeId;
+  position: Position;
+  faction?: FactionId;
+}
+
+interface RegressionCheck {
+  name: string;
+  run: () => void;
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+// A player board with the given units placed on it, as a player would submit it
+function createPlayerBoard(ownerId: string, units: ArmyUnit[]): BoardState {
+  let board = createEmptyBoard();
+  for (const unit of units) {
+    const piece = createPieceFromCard(
+      {
+        index: 0,
+        typeId: unit.typeId,
+        cost: UNIT_DEFINITIONS[unit.typeId].cost,
+        traits: [],
+        faction: unit.faction,
+        purchased: true,
+      },
+      ownerId,
+      'regression-check'
+    );
+    board = addPieceToBoard(board, piece, unit.position);
+  }
+  return board;
+}
+
+// Both players' pieces on one battle board, player 2 mirrored onto the top half
+function createBattle(player1Units: ArmyUnit[], player2Units: ArmyUnit[]): BoardState {
+  return createBattleBoardFromTwo(
+    createPlayerBoard(PLAYER1_ID, player1Units),
+    PLAYER1_ID,
+    createPlayerBoard(PLAYER2_ID, player2Units),
+    PLAYER2_ID
+  );
+}
+
+// Fresh JSON copy, so two runs can't share state through the board they start from
+function copyBoard(board: BoardState): BoardState {
+  return JSON.parse(JSON.stringify(board));
+}
+
+// Replay of a battle between two player boards, with the engine's final state
+function replayBattle(player1Board: BoardState, player2Board: BoardState, seed: number) {
+  const state = runBattle(
+    createBattleBoardFromTwo(
+      copyBoard(player1Board),
+      PLAYER1_ID,
+      copyBoard(player2Board),
+      PLAYER2_ID
+    ),
+    seed
+  );
+  const replay = createBattleReplay({
+    id: 'regression-replay',
+    matchId: 'regression-check',
+    seed,
+    player1: { id: PLAYER1_ID, board: player1Board },
+    player2: { id: PLAYER2_ID, board: player2Board },
+    events: state.events,
+    result: calculateBattleResult(state, PLAYER1_ID, PLAYER2_ID),
+  });
+  return { state, frames: buildReplayFrames(replay) };
+}
+
+// Throw if a replay frame shows the board differently from the engine
+function assertSameBoard(frame: BoardState, board: BoardState, label: string) {
+  const sorted = (record: object | undefined) =>
+    JSON.stringify(Object.entries(record ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+
+  assert(
+    sorted(frame.piecePositions) === sorted(board.piecePositions),
+    `${label}: pieces are on different tiles`
+  );
+  assert(sorted(frame.terrain) === sorted(board.terrain), `${label}: terrain differs`);
+  assert(sorted(frame.obstacles) === sorted(board.obstacles), `${label}: obstacles differ`);
+
+  for (const piece of Object.values(board.pieces)) {
+    const shown = frame.pieces[piece.id];
+    assert(
+      shown?.currentHp === piece.currentHp && shown.maxHp === piece.maxHp,
+      `${label}: ${piece.id} shows ${shown?.currentHp}/${shown?.maxHp} HP, engine has ${piece.currentHp}/${piece.maxHp}`
+    );
+  }
+}
+
+function getOwnedPiece(board: BoardState, ownerId: string, typeId: UnitTypeId) {
+  const piece = Object.values(board.pieces).find(p => p.ownerId === ownerId && p.typeId === typeId);
+  assert(!!piece, `No ${typeId} owned by ${ownerId} on the board`);
+  return piece;
+}
+
+const CHECKS: RegressionCheck[] = [
+  {
+    name: 'pieces face the enemy side of a board built from two player boards',
+    run: () => {
+      const board = createBattle(
+        [{ typeId: 'infantry', position: { x: 1, y: 4 } }],
+        [{ typeId: 'infantry', position: { x: 1, y: 4 } }]
+      );
+      assert(
+        getOwnedPiece(board, PLAYER1_ID, 'infantry').facingUp,
+        "Player 1's pieces should face up"
+      );
+      assert(
+        !getOwnedPiece(board, PLAYER2_ID, 'infantry').facingUp,
+        "Player 2's pieces should face down"
+      );
+    },
+  },
+  {
+    name: "paratroopers drop onto the enemy's back row for both players",
+    run: () => {
+      const board = createBattle(
+        [{ typeId: 'paratrooper', position: { x: 2, y: 5 } }],
+        [{ typeId: 'paratrooper', position: { x: 2, y: 5 } }]
+      );
+      const state = initializeBattle(board, 1);
+      const height = state.board.size.height;
+
+      const p1Landing = getPiecePosition(
+        getOwnedPiece(state.board, PLAYER1_ID, 'paratrooper').id,
+        state.board
+      );
+      const p2Landing = getPiecePosition(
+        getOwnedPiece(state.board, PLAYER2_ID, 'paratrooper').id,
+        state.board
+      );
+      assert(p1Landing?.y === 0, `Player 1's paratrooper landed on row ${p1Landing?.y}, not 0`);
+      assert(
+        p2Landing?.y === height - 1,
+        `Player 2's paratrooper landed on row ${p2Landing?.y}, not ${height - 1}`
+      );
+    },
+  },
+  {
+    name: 'engineers build in front of themselves, towards the enemy, for both players',
+    run: () => {
+      let state = initializeBattle(
+        createBattle(
+          [{ typeId: 'engineer', position: { x: 1, y: 5 } }],
+          [{ typeId: 'engineer', position: { x: 1, y: 5 } }]
+        ),
+        1
+      );
+      const checked = new Set<string>();
+
+      while (!state.isFinished && state.turn < MAX_BATTLE_TURNS && checked.size < 2) {
+        const seen = state.events.length;
+        state = simulateTurn(state);
+        for (const event of state.events.slice(seen)) {
+          if (event.type !== 'obstacle_built' || !event.pieceId || !event.to) continue;
+          const engineer = state.board.pieces[event.pieceId];
+          const from = getPiecePosition(engineer.id, state.board);
+          if (checked.has(engineer.ownerId) || !from) continue;
+
+          const forward = engineer.ownerId === PLAYER1_ID ? -1 : 1;
+          assert(
+            event.to.y === from.y + forward,
+            `${engineer.ownerId}'s engineer at row ${from.y} built on row ${event.to.y}`
+          );
+          checked.add(engineer.ownerId);
+        }
+      }
+      assert(checked.size === 2, 'Both engineers should have built an obstacle');
+    },
+  },
+  {
+    name: "furthest_back units dive the enemy's back row for both players",
+    run: () => {
+      const army: ArmyUnit[] = [
+        { typeId: 'aircraft', position: { x: 0, y: 4 } },
+        { typeId: 'infantry', position: { x: 5, y: 3 } },
+        { typeId: 'infantry', position: { x: 5, y: 5 } },
+      ];
+      const board = createBattle(army, army);
+      const height = board.size.height;
+
+      for (const [ownerId, backRow] of [
+        [PLAYER1_ID, 0],
+        [PLAYER2_ID, height - 1],
+      ] as const) {
+        const aircraft = getOwnedPiece(board, ownerId, 'aircraft');
+        const target = findTargetToApproach(board, aircraft, getPiecePosition(aircraft.id, board)!);
+        assert(
+          target?.position.y === backRow,
+          `${ownerId}'s aircraft went for row ${target?.position.y}, not ${backRow}`
+        );
+      }
+    },
+  },
+  {
+    name: 'air synergy lets aircraft dodge non-AA fire, and engineer synergy strengthens obstacles',
+    run: () => {
+      const dodgesAgainst = (air: ArmyUnit[], attackers: ArmyUnit[]) => {
+        let attacks = 0;
+        let dodges = 0;
+        for (let seed = 1; seed <= 10; seed++) {
+          const state = runBattle(createBattle(air, attackers), seed);
+          for (const event of state.events) {
+            const target = event.targetId ? state.board.pieces[event.targetId] : undefined;
+            if (event.type === 'attack' && target?.typeId === 'aircraft') attacks++;
+            if (event.type === 'dodge') {
+              const dodger = state.board.pieces[event.pieceId!];
+              assert(
+                dodger.ownerId === PLAYER1_ID && dodger.typeId === 'aircraft',
+                `${dodger.id} dodged without the air synergy`
+              );
+              dodges++;
+            }
+          }
+        }
+        return { attacks, dodges };
+      };
+
+      const pair: ArmyUnit[] = [
+        { typeId: 'aircraft', position: { x: 2, y: 5 } },
+        { typeId: 'aircraft', position: { x: 3, y: 5 } },
+      ];
+      const riflemen: ArmyUnit[] = [
+        { typeId: 'infantry', position: { x: 1, y: 4 } },
+        { typeId: 'infantry', position: { x: 2, y: 4 } },
+        { typeId: 'infantry', position: { x: 3, y: 4 } },
+      ];
+      const paired = dodgesAgainst(pair, riflemen);
+      assert(
+        paired.dodges > 0 && paired.dodges < paired.attacks,
+        `A pair of aircraft dodged ${paired.dodges} of ${paired.attacks} rifle attacks`
+      );
+      assert(
+        dodgesAgainst(pair.slice(0, 1), riflemen).dodges === 0,
+        'A lone aircraft has no air synergy to dodge with'
+      );
+      assert(
+        dodgesAgainst(pair, [{ typeId: 'anti_air', position: { x: 2, y: 4 } }]).dodges === 0,
+        'Aircraft should never dodge anti-air fire'
+      );
+
+      // Only player 1 has the engineer pair, so only its wire gets the extra HP
+      const state = runBattle(
+        createBattle(
+          [
+            { typeId: 'engineer', position: { x: 1, y: 5 } },
+            { typeId: 'engineer', position: { x: 4, y: 5 } },
+          ],
+          [{ typeId: 'engineer', position: { x: 1, y: 5 } }]
+        ),
+        1
+      );
+      const built = state.events.filter(e => e.type === 'obstacle_built' && e.obstacle);
+      for (const owner of [PLAYER1_ID, PLAYER2_ID]) {
+        assert(
+          built.some(e => e.obstacle!.ownerId === owner),
+          `${owner}'s engineers built nothing`
+        );
+      }
+      for (const { obstacle } of built) {
+        const bonus = obstacle!.ownerId === PLAYER1_ID ? 1 : 0;
+        assert(
+          obstacle!.maxHp === OBSTACLE_DEFINITIONS[obstacle!.type].baseHp + bonus,
+          `${obstacle!.ownerId}'s ${obstacle!.type} was built with ${obstacle!.maxHp} HP`
+        );
+      }
+    },
+  },
+  {
+    name: 'battles go into overtime, then stop at the turn cap as a timeout draw',
+    run: () => {
+      const bonuses = [0, 1, OVERTIME_ATTACK_INTERVAL, OVERTIME_ATTACK_INTERVAL + 1].map(turn =>
+        getOvertimeAttackBonus(REGULATION_TURNS + turn)
+      );
+      assert(
+        JSON.stringify(bonuses) === JSON.stringify([0, 1, 1, 2]),
+        `Overtime attack bonuses are ${bonuses.join('/')}, expected 0/1/1/2`
+      );
+
+      // Mirrored tanks behind medics outlast regulation, then the overtime bonus breaks the tie
+      const army: ArmyUnit[] = [
+        { typeId: 'tank', position: { x: 2, y: 5 } },
+        { typeId: 'medic', position: { x: 3, y: 5 } },
+      ];
+      const board = createBattle(army, army);
+      const regulation = runBattle(copyBoard(board), 1, REGULATION_TURNS);
+      const result = calculateBattleResult(regulation, PLAYER1_ID, PLAYER2_ID);
+      assert(
+        !regulation.isFinished && result.decidedBy === 'timeout' && result.isDraw,
+        'The tank battle should still be going when regulation ends'
+      );
+
+      const decided = runBattle(copyBoard(board), 1);
+      const overtime = calculateBattleResult(decided, PLAYER1_ID, PLAYER2_ID);
+      assert(
+        decided.isFinished && overtime.decidedBy === 'overtime' && !overtime.isDraw,
+        `The tank battle should be won in overtime, not end as ${overtime.decidedBy} on turn ${decided.turn}`
+      );
+
+      // Medics can't hurt each other, so nothing breaks the tie before the cap
+      const stalemate = runBattle(
+        createBattle(
+          [{ typeId: 'medic', position: { x: 2, y: 5 } }],
+          [{ typeId: 'medic', position: { x: 2, y: 5 } }]
+        ),
+        1
+      );
+      const timeout = calculateBattleResult(stalemate, PLAYER1_ID, PLAYER2_ID);
+      assert(
+        stalemate.turn === MAX_BATTLE_TURNS && timeout.decidedBy === 'timeout' && timeout.isDraw,
+        `A stalemate ended as ${timeout.decidedBy} on turn ${stalemate.turn}`
+      );
+    },
+  },
+  {
+    name: "a battle result's damage breakdown adds up to the damage dealt",
+    run: () => {
+      const config = PLAYER_DAMAGE_CONFIG;
+      const sum = (result: BattleResult) =>
+        result.damageBreakdown.reduce((total, item) => total + item.amount, 0);
+      const amountOf = (result: BattleResult, source: DamageBreakdownItem['source']) =>
+        result.damageBreakdown.find(item => item.source === source)?.amount ?? 0;
+
+      const won = runBattle(
+        createBattle(
+          [
+            { typeId: 'tank', position: { x: 2, y: 5 } },
+            { typeId: 'infantry', position: { x: 3, y: 5 } },
+          ],
+          [{ typeId: 'infantry', position: { x: 2, y: 5 } }]
+        ),
+        1
+      );
+      const survivors = getAlivePiecesByOwner(won.board, PLAYER1_ID);
+      for (const round of [1, 7]) {
+        const result = calculateBattleResult(won, PLAYER1_ID, PLAYER2_ID, round);
+        assert(result.winnerId === PLAYER1_ID, 'The tank side should have won');
+        assert(
+          result.damageDealt === sum(result),
+          `Round ${round}: ${result.damageDealt} damage dealt, breakdown adds up to ${sum(result)}`
+        );
+
+        const stars = survivors.reduce((total, p) => total + p.level, 0);
+        const cost = survivors.reduce((total, p) => total + UNIT_DEFINITIONS[p.typeId].cost, 0);
+        const expected: Array<[DamageBreakdownItem['source'], number]> = [
+          ['base', config.baseDamage],
+          ['round', Math.floor(round * config.damagePerRound)],
+          ['survivor_stars', stars * config.damagePerSurvivorStar],
+          ['survivor_cost', Math.floor(cost * config.damagePerSurvivorCost)],
+        ];
+        for (const [source, amount] of expected) {
+          assert(
+            amountOf(result, source) === amount,
+            `Round ${round}: ${source} line is ${amountOf(result, source)}, expected ${amount}`
+          );
+        }
+        assert(
+          result.damageBreakdown.every(item => item.amount > 0),
+          `Round ${round}: the breakdown lists lines that add nothing`
+        );
+      }
+
+      const drawn = runBattle(
+        createBattle(
+          [{ typeId: 'medic', position: { x: 2, y: 5 } }],
+          [{ typeId: 'medic', position: { x: 2, y: 5 } }]
+        ),
+        1
+      );
+      const draw = calculateBattleResult(drawn, PLAYER1_ID, PLAYER2_ID, 7);
+      assert(
+        draw.isDraw &&
+          draw.damageDealt === sum(draw) &&
+          draw.damageDealt === config.drawDamage + Math.floor(7 * config.damagePerRound),
+        `A round 7 draw cost ${draw.damageDealt} damage`
+      );
+    },
+  },
+  {
+    name: 'strafing runs fly a line through the target and pull out at its far end',
+    run: () => {
+      // Whether the tile is on the straight line from `start` to `end`, `extra` tiles past it included
+      const onLine = (pos: Position, start: Position, end: Position, extra = 0) => {
+        const length = getDistance(start, end);
+        return (
+          (start.x === end.x || start.y === end.y) &&
+          (pos.x === start.x || pos.y === start.y) &&
+          (pos.x === end.x || pos.y === end.y) &&
+          getDistance(pos, start) <= length + extra &&
+          getDistance(pos, end) <= length
+        );
+      };
+
+      const board = createBattle(
+        [{ typeId: 'aircraft', position: { x: 2, y: 4 } }],
+        [
+          { typeId: 'infantry', position: { x: 1, y: 4 } },
+          { typeId: 'infantry', position: { x: 4, y: 5 } },
+        ]
+      );
+      const aircraft = getOwnedPiece(board, PLAYER1_ID, 'aircraft');
+      const aircraftPos = getPiecePosition(aircraft.id, board)!;
+
+      for (let y = 0; y < board.size.height; y++) {
+        for (let x = 0; x < board.size.width; x++) {
+          const target = { x, y };
+          if (getDistance(target, aircraftPos) === 0) continue;
+
+          const run = planStrafeRun(board, aircraft, aircraftPos, target);
+          const label = `A run at ${x},${y} from ${aircraftPos.x},${aircraftPos.y}`;
+          assert(onLine(target, run.start, run.end), `${label} misses its target`);
+          assert(
+            run.tiles.some(tile => getDistance(tile, target) === 0) &&
+              !run.tiles.some(tile => getDistance(tile, aircraftPos) === 0),
+            `${label} should hit the target's tile but not the aircraft's own`
+          );
+          assert(
+            getDistance(run.start, run.end) + 1 >= Math.min(STRAFE_BASE_LENGTH, run.tiles.length),
+            `${label} is shorter than a 1-star run`
+          );
+          assert(
+            !run.exit ||
+              (onLine(run.exit, run.start, run.end, 1) && !isPositionOccupied(run.exit, board)),
+            `${label} pulls out at ${run.exit?.x},${run.exit?.y}, off the run or onto a piece`
+          );
+        }
+      }
+
+      // In battle, the aircraft pulls out where its run ends
+      const state = runBattle(copyBoard(board), 1);
+      const strafes = state.events.filter(e => e.type === 'strafe');
+      assert(strafes.length > 0, 'The aircraft should have flown a strafing run');
+      for (const strafe of strafes) {
+        const exit = state.events.find(
+          e => e.type === 'move' && e.pieceId === strafe.pieceId && e.turn === strafe.turn
+        );
+        assert(
+          !exit || onLine(exit.to!, strafe.from!, strafe.to!, 1),
+          `The aircraft pulled out at ${exit?.to?.x},${exit?.to?.y} after its turn ${strafe.turn} run`
+        );
+      }
+    },
+  },
+  {
+    name: 'synergies step through their breakpoints, applying only the highest tier reached',
+    run: () => {
+      // US infantry count towards both the US (2/4/6) and infantry (3/6) synergies
+      const us = FACTION_SYNERGY_DEFINITIONS.find(s => s.synergyId === 'us_synergy')!;
+      const breakpoints = us.tiers.map(t => t.count);
+      const rifleman = (index: number): ArmyUnit => ({
+        typeId: 'infantry',
+        position: { x: index % 6, y: 4 + Math.floor(index / 6) },
+        faction: 'us',
+      });
+
+      for (let count = 0; count <= 7; count++) {
+        const board = createPlayerBoard(
+          PLAYER1_ID,
+          Array.from({ length: count }, (_, i) => rifleman(i))
+        );
+        const pieces = Object.values(board.pieces);
+        const tier = breakpoints.filter(b => count >= b).length;
+
+        const active = calculateSynergies(pieces).find(s => s.synergyId === us.synergyId)!;
+        assert(
+          active.tier === tier && active.isActive === tier > 0,
+          `${count} US units reached tier ${active.tier}, expected ${tier}`
+        );
+
+        const progress = getSynergyProgress(pieces).find(s => s.synergyId === us.synergyId)!;
+        assert(
+          progress.tier === tier && progress.nextCount === (breakpoints[tier] ?? null),
+          `${count} US units show tier ${progress.tier}, next at ${progress.nextCount}`
+        );
+
+        const bonus = tier > 0 ? us.tiers[tier - 1].effect.value! : 0;
+        for (const piece of applySynergyBonuses(pieces, calculateSynergies(pieces))) {
+          assert(
+            piece.attackMin === board.pieces[piece.id].attackMin + bonus,
+            `${count} US units gave +${piece.attackMin - board.pieces[piece.id].attackMin} attack, expected +${bonus}`
+          );
+        }
+
+        // The next unit reaches a US breakpoint only on 2 and 4 - 3 and 6 are infantry ones
+        const next = wouldActivateSynergy(pieces, { typeId: 'infantry', faction: 'us' });
+        if (count + 1 === 2 || count + 1 === 4) {
+          assert(
+            next?.synergyId === us.synergyId && next.tier === tier + 1,
+            `Unit ${count + 1} should take the US synergy to tier ${tier + 1}`
+          );
+        } else if (count + 1 !== 3 && count + 1 !== 6) {
+          assert(!next, `Unit ${count + 1} reaches no breakpoint, but ${next?.synergyId} moved`);
+        }
+      }
+    },
+  },
+  {
+    name: 'items carry through a merge and go back to the item bench when the piece is sold',
+    run: () => {
+      const board = createPlayerBoard(
+        PLAYER1_ID,
+        [0, 1, 2].map(x => ({ typeId: 'infantry', position: { x, y: 5 } }))
+      );
+      const loadouts: ItemId[][] = [['armor_plate', 'radio'], ['ammo_crate'], ['camouflage_net']];
+      const pieces = Object.values(board.pieces).map((piece, i) =>
+        loadouts[i].reduce(equipItem, piece)
+      );
+
+      const plated = pieces[0];
+      const base = board.pieces[plated.id];
+      assert(
+        plated.maxHp === base.maxHp + 2 &&
+          plated.currentHp === base.currentHp + 2 &&
+          plated.defense === base.defense + 1 &&
+          plated.range === base.range + 1,
+        'Equipping an armor plate and a radio should add +2 HP, +1 defense and +1 range'
+      );
+
+      const merged = mergePieces(pieces);
+      const overflow = getMergeOverflowItems(pieces);
+      const carried = [...getItems(merged), ...overflow].sort();
+      assert(
+        JSON.stringify(carried) === JSON.stringify(loadouts.flat().sort()),
+        `Merging lost items: ${loadouts.flat().join(', ')} became ${carried.join(', ')}`
+      );
+      assert(
+        getItems(merged).length === MAX_ITEMS_PER_PIECE && overflow.length === 1,
+        `The merged piece holds ${getItems(merged).length} items, ${overflow.length} handed back`
+      );
+
+      const expected = applyItemStatEffects(calculatePieceStats('infantry', 2), getItems(merged));
+      assert(
+        merged.maxHp === expected.maxHp &&
+          merged.currentHp === expected.maxHp &&
+          merged.defense === expected.defense &&
+          merged.range === expected.range,
+        "The merged piece's stats should be its 2-star stats plus its items"
+      );
+
+      // Selling the merged piece hands back every item it carries, along with its gold and cards
+      const refund = getSellRefund(merged);
+      assert(
+        JSON.stringify(refund.items) === JSON.stringify(getItems(merged)) &&
+          refund.gold === calculateSellPrice(UNIT_DEFINITIONS.infantry.cost, 2) &&
+          refund.poolCards === 3,
+        `Selling the merged piece refunds ${refund.gold} gold, ${refund.poolCards} cards and ${refund.items.join(', ')}`
+      );
+
+      // The server keeps the merged piece's items when it rebuilds the board
+      const rebuilt = normalizePlayerBoard(
+        addPieceToBoard(createEmptyBoard(), merged, { x: 0, y: 5 })
+      ).pieces[merged.id];
+      assert(
+        JSON.stringify(getItems(rebuilt)) === JSON.stringify(getItems(merged)) &&
+          rebuilt.maxHp === merged.maxHp,
+        'Rebuilding a board on the server should keep the merged piece its items'
+      );
+    },
+  },
+  {
+    name: "commanders' passives reach the economy, the shop and the battle engine",
+    run: () => {
+      const player = (commanderId: CommanderId | null): Player => ({
+        id: PLAYER1_ID,
+        matchId: 'regression-check',
+        name: 'Regression',
+        hp: 100,
+        money: 60,
+        level: 1,
+        isReady: false,
+        isAlive: true,
+        isBot: false,
+        placement: null,
+        winStreak: 0,
+        loseStreak: 0,
+        lastOpponentId: null,
+        commanderId,
+        augments: [],
+      });
+      const won = { isDraw: false } as BattleResult;
+      const income = (commanderId: CommanderId | null, isWinner: boolean) =>
+        calculateRoundIncome(player(commanderId), won, isWinner) -
+        calculateRoundIncome(player(null), won, isWinner);
+
+      assert(income('eisenhower', false) === 1, 'Eisenhower should raise the interest cap by 1');
+      assert(
+        income('patton', true) === 1 && income('patton', false) === 0,
+        'Patton should pay +1 gold for a win and nothing for a loss'
+      );
+      assert(
+        getRoundStartRefreshCost('zhukov') === 0 && getRoundStartRefreshCost(null) === REFRESH_COST,
+        "Only Zhukov's first refresh each round should be free"
+      );
+
+      // Two engineers diagonal to each other only get to sandbag one another under Montgomery
+      const sandbagged = (commanderId?: CommanderId) => {
+        const engineers = createPlayerBoard(PLAYER1_ID, [
+          { typeId: 'engineer', position: { x: 2, y: 5 } },
+          { typeId: 'engineer', position: { x: 1, y: 4 } },
+        ]);
+        let state = initializeBattle(
+          createBattleBoardFromTwo(
+            { ...engineers, commanderId },
+            PLAYER1_ID,
+            createPlayerBoard(PLAYER2_ID, [{ typeId: 'infantry', position: { x: 0, y: 4 } }]),
+            PLAYER2_ID
+          ),
+          1
+        );
+        while (!state.isFinished && state.turn < 20) {
+          state = simulateTurn(state);
+        }
+        return state.events.filter(
+          e => e.type === 'obstacle_built' && e.obstacle?.type === 'sandbags'
+        ).length;
+      };
+      assert(sandbagged('montgomery') > 0, 'Montgomery engineers should sandbag diagonal allies');
+      assert(sandbagged() === 0, 'Engineers should only sandbag diagonal allies under Montgomery');
+
+      // Rommel gives every unit a chance to attack twice in one turn
+      const doubleAttacks = (commanderId?: CommanderId) => {
+        let count = 0;
+        for (let seed = 1; seed <= 5; seed++) {
+          const riflemen = createPlayerBoard(PLAYER1_ID, [
+            { typeId: 'infantry', position: { x: 2, y: 4 } },
+            { typeId: 'infantry', position: { x: 3, y: 4 } },
+          ]);
+          const state = runBattle(
+            createBattleBoardFromTwo(
+              { ...riflemen, commanderId },
+              PLAYER1_ID,
+              createPlayerBoard(PLAYER2_ID, [{ typeId: 'tank', position: { x: 2, y: 4 } }]),
+              PLAYER2_ID
+            ),
+            seed
+          );
+          const attacks = state.events.filter(e => e.type === 'attack');
+          count += attacks.filter((e, i) =>
+            attacks.some(
+              (other, j) => j < i && other.pieceId === e.pieceId && other.turn === e.turn
+            )
+          ).length;
+        }
+        return count;
+      };
+      assert(doubleAttacks('rommel') > 0, "Rommel's units should sometimes attack twice in a turn");
+      assert(doubleAttacks() === 0, 'Units without a blitz bonus should attack once a turn');
+    },
+  },
+  {
+    name: 'tanks pin every unit with the infantry trait, not just the infantry unit',
+    run: () => {
+      const board = createBattle(
+        [{ typeId: 'tank', position: { x: 0, y: 4 } }],
+        [
+          { typeId: 'infantry', position: { x: 0, y: 4 } },
+          { typeId: 'sniper', position: { x: 1, y: 4 } },
+          { typeId: 'flamethrower', position: { x: 2, y: 4 } },
+          { typeId: 'paratrooper', position: { x: 3, y: 4 } },
+          { typeId: 'armored_car', position: { x: 4, y: 4 } },
+        ]
+      );
+      const tank = getOwnedPiece(board, PLAYER1_ID, 'tank');
+
+      for (const typeId of ['infantry', 'sniper', 'flamethrower', 'paratrooper'] as const) {
+        const effects = getOnHitStatusEffects(tank, getOwnedPiece(board, PLAYER2_ID, typeId));
+        assert(effects.includes('pinned'), `A tank hit should pin a ${typeId}`);
+      }
+      const car = getOwnedPiece(board, PLAYER2_ID, 'armored_car');
+      assert(
+        !getOnHitStatusEffects(tank, car).includes('pinned'),
+        'A tank hit should not pin an armored car'
+      );
+    },
+  },
+  {
+    name: 'heavy bomber bombs stun survivors, and stunned pieces neither move nor attack',
+    run: () => {
+      let state = initializeBattle(
+        createBattle(
+          [{ typeId: 'heavy_bomber', position: { x: 2, y: 5 } }],
+          [
+            { typeId: 'tank', position: { x: 2, y: 4 } },
+            { typeId: 'tank', position: { x: 3, y: 4 } },
+          ]
+        ),
+        1
+      );
+
+      let stun: { pieceId: string; turn: number; duration: number } | null = null;
+      while (!state.isFinished && state.turn < MAX_BATTLE_TURNS && !stun) {
+        state = simulateTurn(state);
+        const applied = state.events.find(
+          e => e.type === 'status_applied' && e.status?.type === 'stun'
+        );
+        if (applied?.pieceId && applied.status) {
+          stun = {
+            pieceId: applied.pieceId,
+            turn: applied.turn,
+            duration: applied.status.remainingTurns,
+          };
+        }
+      }
+      assert(!!stun, 'A heavy bomber bomb should have stunned a tank');
+
+      // The effect is ticked at the start of each turn, so it keeps the piece idle until it expires
+      const lastStunnedTurn = stun.turn + stun.duration - 1;
+      while (!state.isFinished && state.turn < lastStunnedTurn) {
+        state = simulateTurn(state);
+      }
+      const acted = state.events.find(
+        e =>
+          e.pieceId === stun.pieceId &&
+          e.turn > stun.turn &&
+          e.turn <= lastStunnedTurn &&
+          (e.type === 'move' || e.type === 'attack')
+      );
+      assert(!acted, `A stunned tank acted on turn ${acted?.turn}`);
+    },
+  },
+  {
+    name: 'a heavy bomber bomb still explodes after the bomber is shot down',
+    run: () => {
+      // The engineer keeps player 1 in the battle once the bomber is gone
+      let state = initializeBattle(
+        createBattle(
+          [
+            { typeId: 'heavy_bomber', position: { x: 2, y: 5 } },
+            { typeId: 'engineer', position: { x: 5, y: 5 } },
+          ],
+          [
+            { typeId: 'tank', position: { x: 2, y: 4 } },
+            { typeId: 'tank', position: { x: 3, y: 4 } },
+          ]
+        ),
+        1
+      );
+
+      while (!state.isFinished && state.turn < MAX_BATTLE_TURNS && state.bombs.length === 0) {
+        state = simulateTurn(state);
+      }
+      const [bomb] = state.bombs;
+      assert(!!bomb, 'The heavy bomber should have dropped a bomb');
+
+      state.board.pieces[bomb.bomberId] = { ...state.board.pieces[bomb.bomberId], currentHp: 0 };
+      while (!state.isFinished && state.turn < bomb.landsAtTurn) {
+        state = simulateTurn(state);
+      }
+      assert(
+        state.events.some(
+          e => e.type === 'attack' && e.pieceId === bomb.bomberId && e.turn === bomb.landsAtTurn
+        ),
+        `The bomb due on turn ${bomb.landsAtTurn} never went off`
+      );
+      assert(state.bombs.length === 0, 'An exploded bomb should no longer be pending');
+    },
+  },
+  {
+    name: 'the tile and piece sides of the position index agree after every turn',
+    run: () => {
+      const army: ArmyUnit[] = [
+        { typeId: 'tank', position: { x: 1, y: 3 } },
+        { typeId: 'infantry', position: { x: 2, y: 3 } },
+        { typeId: 'paratrooper', position: { x: 3, y: 4 } },
+        { typeId: 'artillery', position: { x: 4, y: 5 } },
+        { typeId: 'aircraft', position: { x: 0, y: 5 } },
+      ];
+      let state = initializeBattle(createBattle(army, army), 1);
+
+      while (!state.isFinished && state.turn < MAX_BATTLE_TURNS) {
+        state = simulateTurn(state);
+        const { pieces, piecePositions } = state.board;
+
+        for (const [key, pieceId] of Object.entries(piecePositions)) {
+          const pos = pieces[pieceId]?.position;
+          assert(
+            !!pos && positionToKey(pos) === key,
+            `Turn ${state.turn}: tile ${key} holds ${pieceId}, which thinks it is at ${pos && positionToKey(pos)}`
+          );
+        }
+        for (const piece of Object.values(pieces)) {
+          assert(
+            !piece.position || piecePositions[positionToKey(piece.position)] === piece.id,
+            `Turn ${state.turn}: ${piece.id} thinks it is at ${piece.position && positionToKey(piece.position)}, which holds ${piece.position && piecePositions[positionToKey(piece.position)]}`
+          );
+        }
+      }
+    },
+  },
+  {
+    name: 'the same board and seed always play out the same battle',
+    run: () => {
+      const army: ArmyUnit[] = [
+        { typeId: 'tank', position: { x: 1, y: 3 } },
+        { typeId: 'flamethrower', position: { x: 2, y: 3 } },
+        { typeId: 'sniper', position: { x: 4, y: 5 } },
+        { typeId: 'heavy_bomber', position: { x: 0, y: 5 } },
+      ];
+      const board = createBattle(army, army);
+
+      for (const seed of [1, 42, 0xdeadbeef]) {
+        const [first, second] = [1, 2].map(() => {
+          const state = runBattle(copyBoard(board), seed);
+          return JSON.stringify({
+            events: state.events,
+            result: calculateBattleResult(state, PLAYER1_ID, PLAYER2_ID),
+          });
+        });
+        assert(first === second, `Seed ${seed} played out differently on a second run`);
+      }
+
+      const [a, b] = [1, 2].map(() => {
+        const rng = createRng(7);
+        return JSON.stringify([nextRandom(rng), rollFaction(rng), rollFaction(rng), rng]);
+      });
+      assert(a === b, 'The same seed should give the same random stream and faction rolls');
+    },
+  },
+  {
+    name: 'status effects follow their stacking rules and run out after their duration',
+    run: () => {
+      let piece = getOwnedPiece(
+        createBattle([{ typeId: 'infantry', position: { x: 1, y: 4 } }], []),
+        PLAYER1_ID,
+        'infantry'
+      );
+      const stacksOf = (type: string) => piece.statusEffects?.find(e => e.type === type)?.stacks;
+
+      // Stacking effects stop at their cap
+      for (let i = 0; i < 3; i++) piece = applyStatusEffect(piece, 'suppression', 'src').piece;
+      const maxStacks = STATUS_EFFECT_DEFINITIONS.suppression.maxStacks;
+      assert(
+        stacksOf('suppression') === maxStacks,
+        `Suppression reached ${stacksOf('suppression')} stacks, not ${maxStacks}`
+      );
+
+      // A stun can't be reapplied while one is running
+      piece = applyStatusEffect(piece, 'stun', 'src').piece;
+      assert(
+        applyStatusEffect(piece, 'stun', 'src').effect === null,
+        'A second stun should not replace a running one'
+      );
+
+      // Refreshing effects go back to full duration
+      piece = applyStatusEffect(piece, 'pinned', 'src').piece;
+      piece = tickStatusEffects(piece).piece;
+      piece = applyStatusEffect(piece, 'pinned', 'src').piece;
+      const pinned = piece.statusEffects?.find(e => e.type === 'pinned');
+      assert(
+        pinned?.remainingTurns === STATUS_EFFECT_DEFINITIONS.pinned.duration,
+        `A reapplied pin has ${pinned?.remainingTurns} turns left, not a full duration`
+      );
+
+      // Each effect is gone once its own duration has been ticked off
+      for (let turn = 1; turn <= STATUS_EFFECT_DEFINITIONS.stun.duration; turn++) {
+        piece = tickStatusEffects(piece).piece;
+      }
+      assert(stacksOf('stun') === undefined, 'A stun outlasted its duration');
+      assert(stacksOf('suppression') !== undefined, 'Suppression ran out before its duration');
+    },
+  },
+  {
+    name: 'PvE waves come on their rounds, pay out on a win and face the player',
+    run: () => {
+      OPENING_PVE_WAVES.forEach((id, round) => {
+        assert(getPveWave(round)?.id === id, `Round ${round} should fight ${id}`);
+      });
+      const lastPeriodic = PERIODIC_PVE_WAVES.length * PVE_ROUND_INTERVAL;
+      assert(
+        getPveWave(lastPeriodic + PVE_ROUND_INTERVAL)?.id === PERIODIC_PVE_WAVES.at(-1),
+        'The last periodic wave should repeat once the list runs out'
+      );
+      assert(getPveWave(PVE_ROUND_INTERVAL + 1) === null, 'Rounds between waves are PvP');
+
+      for (const wave of Object.values(PVE_WAVES)) {
+        assert(
+          wave.reward.gold > 0 && Number.isInteger(wave.reward.items) && wave.reward.items >= 0,
+          `${wave.id} should pay gold and a whole number of items`
+        );
+      }
+
+      const wave = PVE_WAVES.recon_patrol;
+      const playerBoard = createPlayerBoard(PLAYER1_ID, [
+        { typeId: 'tank', position: { x: 1, y: 4 } },
+        { typeId: 'tank', position: { x: 2, y: 4 } },
+        { typeId: 'tank', position: { x: 3, y: 4 } },
+        { typeId: 'artillery', position: { x: 2, y: 5 } },
+      ]);
+      const { state, result } = runPveBattle(playerBoard, PLAYER1_ID, wave, 'regression', 1, 1);
+
+      assert(result.winnerId === PLAYER1_ID, `Three tanks lost to ${wave.name}`);
+      for (const piece of Object.values(state.board.pieces)) {
+        if (piece.ownerId !== PLAYER1_ID) {
+          assert(!piece.facingUp, `Wave piece ${piece.id} should face down towards the player`);
+        }
+      }
+    },
+  },
+  {
+    name: "augments boost only their unit types, and only their owner's pieces",
+    run: () => {
+      const units: ArmyUnit[] = [
+        { typeId: 'infantry', position: { x: 1, y: 4 } },
+        { typeId: 'artillery', position: { x: 2, y: 5 } },
+        { typeId: 'tank', position: { x: 3, y: 4 } },
+      ];
+      const player1Board: BoardState = {
+        ...createPlayerBoard(PLAYER1_ID, units),
+        augments: ['veteran_riflemen', 'forward_observers'],
+      };
+      const board = createBattleBoardFromTwo(
+        player1Board,
+        PLAYER1_ID,
+        createPlayerBoard(PLAYER2_ID, units),
+        PLAYER2_ID
+      );
+
+      const infantry = getOwnedPiece(board, PLAYER1_ID, 'infantry');
+      const artillery = getOwnedPiece(board, PLAYER1_ID, 'artillery');
+      const tank = getOwnedPiece(board, PLAYER1_ID, 'tank');
+      const baseInfantry = getOwnedPiece(player1Board, PLAYER1_ID, 'infantry');
+      const baseArtillery = getOwnedPiece(player1Board, PLAYER1_ID, 'artillery');
+      const baseTank = getOwnedPiece(player1Board, PLAYER1_ID, 'tank');
+      assert(infantry.maxHp === baseInfantry.maxHp + 2, 'Veteran Riflemen should give +2 max HP');
+      assert(artillery.range === baseArtillery.range + 1, 'Forward Observers should give +1 range');
+      assert(
+        tank.maxHp === baseTank.maxHp && tank.range === baseTank.range,
+        'Tanks should not be boosted by infantry or artillery augments'
+      );
+
+      for (const typeId of ['infantry', 'artillery'] as const) {
+        const base = getOwnedPiece(player1Board, PLAYER1_ID, typeId);
+        const enemy = getOwnedPiece(board, PLAYER2_ID, typeId);
+        assert(
+          enemy.maxHp === base.maxHp && enemy.range === base.range,
+          `Player 1's augments leaked onto player 2's ${typeId}`
+        );
+      }
+    },
+  },
+  {
+    name: "a replay's last frame shows the engine's final board, synergy bonuses included",
+    run: () => {
+      const ussr: ArmyUnit[] = [
+        { typeId: 'infantry', position: { x: 0, y: 3 }, faction: 'ussr' },
+        { typeId: 'infantry', position: { x: 1, y: 3 }, faction: 'ussr' },
+        { typeId: 'tank', position: { x: 2, y: 3 }, faction: 'ussr' },
+        { typeId: 'flamethrower', position: { x: 3, y: 3 }, faction: 'ussr' },
+        { typeId: 'artillery', position: { x: 2, y: 5 }, faction: 'ussr' },
+      ];
+      const mixed: ArmyUnit[] = [
+        { typeId: 'engineer', position: { x: 1, y: 4 } },
+        { typeId: 'medic', position: { x: 3, y: 5 } },
+        { typeId: 'paratrooper', position: { x: 4, y: 4 } },
+        { typeId: 'heavy_bomber', position: { x: 0, y: 5 } },
+        { typeId: 'aircraft', position: { x: 5, y: 5 } },
+        { typeId: 'sniper', position: { x: 2, y: 4 } },
+      ];
+
+      for (const seed of [1, 2, 3, 4, 5]) {
+        for (const [p1, p2] of [
+          [ussr, mixed],
+          [mixed, ussr],
+        ]) {
+          const { state, frames } = replayBattle(
+            createPlayerBoard(PLAYER1_ID, p1),
+            createPlayerBoard(PLAYER2_ID, p2),
+            seed
+          );
+          assertSameBoard(frames[frames.length - 1], state.board, `Seed ${seed}`);
+        }
+      }
+    },
+  },
+  {
+    name: 'replays show paratroopers where they dropped from the first frame',
+    run: () => {
+      const army: ArmyUnit[] = [
+        { typeId: 'paratrooper', position: { x: 1, y: 5 } },
+        { typeId: 'paratrooper', position: { x: 4, y: 5 } },
+        { typeId: 'tank', position: { x: 2, y: 3 } },
+      ];
+      const { state, frames } = replayBattle(
+        createPlayerBoard(PLAYER1_ID, army),
+        createPlayerBoard(PLAYER2_ID, army),
+        1
+      );
+      const drops = state.events.filter(e => e.turn === 0 && e.type === 'move');
+      assert(drops.length === 4, `Expected 4 paratrooper drops, got ${drops.length}`);
+
+      for (const frame of frames.slice(0, 2)) {
+        for (const drop of drops) {
+          const shown = frame.pieces[drop.pieceId].position;
+          assert(
+            shown?.x === drop.to?.x && shown?.y === drop.to?.y,
+            `A paratrooper is drawn at ${JSON.stringify(shown)}, not its landing tile`
+          );
+        }
+      }
+    },
+  },
+  {
+    name: 'PvE playback ends on the board the wave battle was decided on',
+    run: () => {
+      const playerBoard = createPlayerBoard(PLAYER1_ID, [
+        { typeId: 'infantry', position: { x: 1, y: 3 }, faction: 'ussr' },
+        { typeId: 'infantry', position: { x: 2, y: 3 }, faction: 'ussr' },
+        { typeId: 'flamethrower', position: { x: 3, y: 3 }, faction: 'ussr' },
+        { typeId: 'paratrooper', position: { x: 4, y: 5 }, faction: 'ussr' },
+      ]);
+
+      for (const wave of Object.values(PVE_WAVES)) {
+        const { pveBoard, state, result } = runPveBattle(
+          copyBoard(playerBoard),
+          PLAYER1_ID,
+          wave,
+          'regression-check',
+          1,
+          1
+        );
+        const frames = buildReplayFrames(
+          createBattleReplay({
+            id: 'regression-replay',
+            matchId: 'regression-check',
+            seed: 1,
+            player1: { id: PLAYER1_ID, board: playerBoard },
+            player2: { id: PVE_PLAYER_ID, board: pveBoard },
+            events: state.events,
+            result,
+          })
+        );
+        assertSameBoard(frames[frames.length - 1], state.board, wave.name);
+      }
+    },
+  },
+  {
+    name: 'battles are fought on the terrain rolled from the seed, whatever the board claims',
+    run: () => {
+      const player1Board = createPlayerBoard(PLAYER1_ID, [
+        { typeId: 'tank', position: { x: 1, y: 4 } },
+      ]);
+      const player2Board = createPlayerBoard(PLAYER2_ID, [
+        { typeId: 'tank', position: { x: 1, y: 4 } },
+      ]);
+      const board = createBattleBoardFromTwo(player1Board, PLAYER1_ID, player2Board, PLAYER2_ID);
+      const rolled = JSON.stringify(generateTerrainLayout(board, 1));
+
+      // A board that tries to wall the enemy's tanks in with river
+      const terrain: BoardState['terrain'] = {};
+      for (let x = 0; x < board.size.width; x++) terrain[`${x},2`] = 'river';
+
+      const engineTerrain = initializeBattle({ ...copyBoard(board), terrain }, 1).board.terrain;
+      assert(JSON.stringify(engineTerrain) === rolled, 'The engine kept the terrain it was sent');
+
+      const step = runBattleStep({
+        matchId: 'regression-check',
+        turn: 1,
+        player1Id: PLAYER1_ID,
+        player2Id: PLAYER2_ID,
+        player1Board: { ...copyBoard(player1Board), terrain },
+        player2Board: copyBoard(player2Board),
+        seed: 1,
+      });
+      assert(
+        JSON.stringify(step.updatedBoard.terrain) === rolled,
+        'The edge function step kept the terrain it was sent'
+      );
+    },
+  },
+  {
+    name: 'the edge function rebuilds submitted armies and rejects impossible ones',
+    run: () => {
+      const honest = createPlayerBoard(PLAYER1_ID, [
+        { typeId: 'tank', position: { x: 1, y: 4 } },
+        { typeId: 'infantry', position: { x: 2, y: 4 } },
+      ]);
+      const tank = getOwnedPiece(honest, PLAYER1_ID, 'tank');
+
+      // Inflated stats, a head start on status effects and an obstacle of its own
+      const doctored: BoardState = {
+        ...copyBoard(honest),
+        obstacles: {
+          '1,3': {
+            type: 'tank_trap',
+            ownerId: PLAYER1_ID,
+            builderId: tank.id,
+            hp: 99,
+            maxHp: 99,
+            armor: 0,
+            expiresAtTurn: 999,
+          },
+        },
+      };
+      doctored.pieces[tank.id] = {
+        ...doctored.pieces[tank.id],
+        maxHp: 99,
+        currentHp: 99,
+        attackMin: 50,
+        attackMax: 50,
+        modifiers: { ...tank.modifiers!, aoeRadius: 5 },
+        statusEffects: [{ type: 'stun', remainingTurns: 10, stacks: 1, sourceId: tank.id }],
+      };
+
+      const normalized = normalizePlayerBoard(doctored);
+      assert(
+        JSON.stringify(normalized) === JSON.stringify(normalizePlayerBoard(honest)),
+        'A doctored board should be rebuilt into the same board as the honest one'
+      );
+      assert(
+        JSON.stringify(normalized.pieces[tank.id]) === JSON.stringify(tank),
+        'Rebuilding an honest piece should not change it'
+      );
+
+      const request = {
+        matchId: 'regression-check',
+        turn: 1,
+        player1Id: PLAYER1_ID,
+        player2Id: PLAYER2_ID,
+        player2Board: createPlayerBoard(PLAYER2_ID, []),
+        seed: 1,
+      };
+      assert(
+        validateBattleStepRequest({ ...request, player1Board: honest }) === null,
+        'An honest board should be accepted'
+      );
+
+      const impossible: Array<[string, Partial<Piece>]> = [
+        ['an unknown unit', { typeId: 'battleship' as UnitTypeId }],
+        ['a 4-star piece', { level: 4 }],
+        ['a piece off the board', { position: { x: 9, y: 4 } }],
+        ['a piece on an occupied tile', { position: { x: 2, y: 4 } }],
+        ['an unknown item', { items: ['death_ray' as ItemId] }],
+        ['a trait above its star level', { traits: [{ traitId: 'blitz', level: 2 }] }],
+      ];
+      for (const [label, change] of impossible) {
+        const board = copyBoard(honest);
+        board.pieces[tank.id] = { ...board.pieces[tank.id], ...change };
+        assert(
+          validateBattleStepRequest({ ...request, player1Board: board }) !== null,
+          `A board with ${label} should be rejected`
+        );
+      }
+    },
+  },
+  {
+    name: 'star upgrade specials play out as written, and obstacles crumble when they run out',
+    run: () => {
+      for (const [typeId, upgrades] of Object.entries(STAR_UPGRADES)) {
+        for (const upgrade of [upgrades.star2, upgrades.star3]) {
+          const modifiers = calculatePieceStats(typeId as UnitTypeId, 3).modifiers;
+          assert(
+            !upgrade.special || Object.values(modifiers).some(value => value > 0),
+            `${typeId}'s ${upgrade.special} special grants nothing`
+          );
+        }
+      }
+
+      // 3-star aircraft strafe one line either side, two tiles further than at 1 star
+      const board = createBattle(
+        [{ typeId: 'aircraft', position: { x: 3, y: 5 } }],
+        [{ typeId: 'infantry', position: { x: 3, y: 5 } }]
+      );
+      const aircraft = getOwnedPiece(board, PLAYER1_ID, 'aircraft');
+      const aircraftPos = getPiecePosition(aircraft.id, board)!;
+      const targetPos = { x: aircraftPos.x, y: aircraftPos.y - 2 };
+      const veteran = { ...aircraft, level: 3, ...calculatePieceStats('aircraft', 3) };
+      const rookieRun = planStrafeRun(board, aircraft, aircraftPos, targetPos);
+      const veteranRun = planStrafeRun(board, veteran, aircraftPos, targetPos);
+      assert(
+        rookieRun.width === 0 && veteranRun.width === 1,
+        `Strafe widths are ${rookieRun.width} at 1 star and ${veteranRun.width} at 3 stars`
+      );
+      assert(
+        veteranRun.start.y - veteranRun.end.y === rookieRun.start.y - rookieRun.end.y + 2,
+        'A 3-star strafing run should be two tiles longer than a 1-star one'
+      );
+
+      // Medics can't hurt each other, so the obstacles get the whole battle to run out.
+      // A 3-star engineer's obstacles stand two build cycles longer, sandbags with +2 armor
+      const battle = createBattle(
+        [
+          { typeId: 'engineer', position: { x: 1, y: 5 } },
+          { typeId: 'medic', position: { x: 2, y: 5 } },
+        ],
+        [
+          { typeId: 'engineer', position: { x: 4, y: 5 } },
+          { typeId: 'medic', position: { x: 3, y: 5 } },
+        ]
+      );
+      const engineer = getOwnedPiece(battle, PLAYER1_ID, 'engineer');
+      battle.pieces[engineer.id] = {
+        ...engineer,
+        level: 3,
+        ...calculatePieceStats('engineer', 3),
+      };
+      battle.pieces[engineer.id].currentHp = battle.pieces[engineer.id].maxHp;
+
+      let state = initializeBattle(battle, 1);
+      const standing = new Map<string, number>();
+      let expired = 0;
+      while (!state.isFinished && state.turn < MAX_BATTLE_TURNS) {
+        const seen = state.events.length;
+        state = simulateTurn(state);
+        for (const event of state.events.slice(seen)) {
+          if (!event.to) continue;
+          const key = positionToKey(event.to);
+
+          if (event.type === 'obstacle_built' && event.obstacle) {
+            const veteranBuilt = event.pieceId === engineer.id;
+            const duration = veteranBuilt
+              ? OBSTACLE_BASE_DURATION + 2 * OBSTACLE_DURATION_STEP
+              : OBSTACLE_BASE_DURATION;
+            assert(
+              event.obstacle.expiresAtTurn === event.turn + duration,
+              `An obstacle built on turn ${event.turn} runs out on turn ${event.obstacle.expiresAtTurn}`
+            );
+            if (event.obstacle.type === 'sandbags') {
+              assert(
+                event.obstacle.armor === (veteranBuilt ? 3 : 1),
+                `Sandbags built with ${event.obstacle.armor} armor`
+              );
+            }
+            standing.set(key, event.obstacle.expiresAtTurn);
+          } else if (event.type === 'obstacle_destroyed') {
+            standing.delete(key);
+          } else if (event.type === 'obstacle_expired') {
+            assert(
+              standing.get(key) === event.turn,
+              `The obstacle at ${key} crumbled on turn ${event.turn}, not when it ran out`
+            );
+            standing.delete(key);
+            expired++;
+          }
+        }
+      }
+      assert(expired > 0, 'Some obstacles should have crumbled during the battle');
+    },
+  },
+];
+
+function main() {
+  let failures = 0;
+
+  for (const check of CHECKS) {
+    try {
+      check.run();
+    } catch (err) {
+      failures++;
+      console.error(`[regressions] FAIL ${check.name}: ${(err as Error).message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`[regressions] ${failures}/${CHECKS.length} checks failed`);
+    process.exit(1);
+  }
+
+  console.log(`[regressions] ${CHECKS.length} checks passed`);
+}
+
+main();
@@ -0,0 +1,231 @@
+// =============================================
+// Headless Battle Simulator
+// Runs seeded battles between army compositions on the plain engine (no React,
+// no store, no InsForge) and prints win rates, battle length and damage, or a
+// unit-vs-unit win-rate matrix over every unit in UNIT_DEFINITIONS.
+//
+// Usage:
+//   npm run simulate -- <army1> <army2> [battles] [seed]
+//   npm run simulate -- --matrix [battles per pair] [seed]
+//
+// An army is a comma-separated list of unit ids with an optional star level,
+// e.g. `tank:2,infantry,infantry,artillery`.
+// =============================================
+
+import { BattleDecision, BoardState, UnitTypeId, BOARD_WIDTH, BOARD_HEIGHT } from '../src/types';
+import { UNIT_DEFINITIONS } from '../src/types/units';
+import { runBattle, calculateBattleResult } from '../src/engine/battle';
+import {
+  createEmptyBoard,
+  addPieceToBoard,
+  createBattleBoardFromTwo,
+  isPositionOccupied,
+} from '../src/engine/board';
+import { createPieceFromCard } from '../src/engine/shop';
+import { calculatePieceStats } from '../src/engine/upgrades';
+import { createRng, randomInt } from '../src/engine/random';
+
+const PLAYER1_ID = 'sim-player-1';
+const PLAYER2_ID = 'sim-player-2';
+
+// Copies of each unit per side in the unit-vs-unit matrix
+const MATRIX_TEAM_SIZE = 3;
+
+// Columns filled first, so small armies stand in the middle of the board
+const COLUMN_ORDER = [2, 3, 1, 4, 0, 5];
+
+interface ArmyUnit {
+  typeId: UnitTypeId;
+  level: number;
+}
+
+interface SimulationSummary {
+  battles: number;
+  player1Wins: number;
+  player2Wins: number;
+  draws: number;
+  totalTurns: number;
+  totalDamage: number; // HP lost by the losing player, summed over decided battles
+  decisions: Record<BattleDecision, number>;
+}
+
+function parseArmy(spec: string): ArmyUnit[] {
+  return spec
+    .split(',')
+    .filter(Boolean)
+    .map(entry => {
+      const [typeId, level = '1'] = entry.trim().split(':');
+      if (!UNIT_DEFINITIONS[typeId]) {
+        throw new Error(
+          `Unknown unit "${typeId}" - expected one of ${Object.keys(UNIT_DEFINITIONS).join(', ')}`
+        );
+      }
+      const star = Number(level);
+      if (![1, 2, 3].includes(star)) {
+        throw new Error(`Invalid star level "${level}" for ${typeId} - expected 1, 2 or 3`);
+      }
+      return { typeId: typeId as UnitTypeId, level: star };
+    });
+}
+
+// Deploy an army on a player's own board: melee in the front row, ranged units at the back
+function buildArmyBoard(army: ArmyUnit[], ownerId: string): BoardState {
+  let board = createEmptyBoard();
+  const frontRow = BOARD_HEIGHT / 2;
+  const rows = Array.from({ length: BOARD_HEIGHT / 2 }, (_, i) => frontRow + i);
+
+  for (const unit of army) {
+    const def = UNIT_DEFINITIONS[unit.typeId];
+    const rowOrder = def.baseRange > 1 ? [...rows].reverse() : rows;
+    const pos = rowOrder
+      .flatMap(y => COLUMN_ORDER.filter(x => x < BOARD_WIDTH).map(x => ({ x, y })))
+      .find(p => !isPositionOccupied(p, board));
+
+    if (!pos) {
+      throw new Error(`Army has more than ${BOARD_WIDTH * rows.length} units`);
+    }
+
+    const piece = createPieceFromCard(
+      { index: 0, typeId: unit.typeId, cost: def.cost, traits: [], purchased: true },
+      ownerId,
+      'simulator'
+    );
+    const stats = calculatePieceStats(unit.typeId, unit.level);
+    board = addPieceToBoard(
+      board,
+      { ...piece, ...stats, level: unit.level, currentHp: stats.maxHp },
+      pos
+    );
+  }
+
+  return board;
+}
+
+function simulate(
+  army1: ArmyUnit[],
+  army2: ArmyUnit[],
+  battles: number,
+  baseSeed: number
+): SimulationSummary {
+  const board1 = buildArmyBoard(army1, PLAYER1_ID);
+  const board2 = buildArmyBoard(army2, PLAYER2_ID);
+  const rng = createRng(baseSeed);
+
+  const summary: SimulationSummary = {
+    battles,
+    player1Wins: 0,
+    player2Wins: 0,
+    draws: 0,
+    totalTurns: 0,
+    totalDamage: 0,
+    decisions: { regulation: 0, overtime: 0, timeout: 0 },
+  };
+
+  for (let i = 0; i < battles; i++) {
+    // Armies swap sides every other battle so neither gets the bottom half every time
+    const battleBoard =
+      i % 2 === 0
+        ? createBattleBoardFromTwo(board1, PLAYER1_ID, board2, PLAYER2_ID)
+        : createBattleBoardFromTwo(board2, PLAYER2_ID, board1, PLAYER1_ID);
+    const state = runBattle(battleBoard, randomInt(rng, 0, 0xffffffff));
+    const result = calculateBattleResult(state, PLAYER1_ID, PLAYER2_ID);
+
+    summary.totalTurns += state.turn;
+    summary.decisions[result.decidedBy]++;
+
+    if (result.isDraw) {
+      summary.draws++;
+    } else {
+      summary.totalDamage += result.damageDealt;
+      if (result.winnerId === PLAYER1_ID) {
+        summary.player1Wins++;
+      } else {
+        summary.player2Wins++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+function percent(count: number, total: number): string {
+  return `${((count / total) * 100).toFixed(1)}%`;
+}
+
+function printSummary(army1Spec: string, army2Spec: string, summary: SimulationSummary): void {
+  const decided = summary.player1Wins + summary.player2Wins;
+
+  console.log(`[simulate] ${summary.battles} battles: ${army1Spec} vs ${army2Spec}`);
+  console.log(
+    `  Army 1 wins:  ${summary.player1Wins} (${percent(summary.player1Wins, summary.battles)})`
+  );
+  console.log(
+    `  Army 2 wins:  ${summary.player2Wins} (${percent(summary.player2Wins, summary.battles)})`
+  );
+  console.log(`  Draws:        ${summary.draws} (${percent(summary.draws, summary.battles)})`);
+  console.log(`  Avg turns:    ${(summary.totalTurns / summary.battles).toFixed(1)}`);
+  console.log(
+    `  Avg damage:   ${decided > 0 ? (summary.totalDamage / decided).toFixed(1) : '-'} (to the loser, round 1)`
+  );
+  console.log(
+    `  Decided by:   ${Object.entries(summary.decisions)
+      .map(([decision, count]) => `${decision} ${count}`)
+      .join(', ')}`
+  );
+}
+
+// Row unit's win rate against each column unit, MATRIX_TEAM_SIZE copies a side
+function printMatrix(battles: number, baseSeed: number): void {
+  const unitTypes = Object.keys(UNIT_DEFINITIONS) as UnitTypeId[];
+  const width = Math.max(...unitTypes.map(t => t.length)) + 2;
+
+  console.log(
+    `[simulate] Win rate of row vs column, ${MATRIX_TEAM_SIZE} units a side, ${battles} battles per pair`
+  );
+  console.log(''.padEnd(width) + unitTypes.map(t => t.padStart(width)).join(''));
+
+  for (const rowType of unitTypes) {
+    const cells = unitTypes.map(columnType => {
+      const summary = simulate(
+        Array(MATRIX_TEAM_SIZE).fill({ typeId: rowType, level: 1 }),
+        Array(MATRIX_TEAM_SIZE).fill({ typeId: columnType, level: 1 }),
+        battles,
+        baseSeed
+      );
+      return percent(summary.player1Wins, summary.battles).padStart(width);
+    });
+    console.log(rowType.padEnd(width) + cells.join(''));
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--matrix') {
+    printMatrix(Number(args[1] ?? 100), Number(args[2] ?? 1));
+    return;
+  }
+
+  if (args.length < 2) {
+    console.error('Usage: npm run simulate -- <army1> <army2> [battles] [seed]');
+    console.error('       npm run simulate -- --matrix [battles per pair] [seed]');
+    console.error('Example: npm run simulate -- tank:2,infantry,infantry artillery,aircraft 1000');
+    process.exit(1);
+  }
+
+  const [army1Spec, army2Spec] = args;
+  const summary = simulate(
+    parseArmy(army1Spec),
+    parseArmy(army2Spec),
+    Number(args[2] ?? 1000),
+    Number(args[3] ?? 1)
+  );
+  printSummary(army1Spec, army2Spec, summary);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
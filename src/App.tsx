@@ -1,5 +1,5 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthPage, LobbyPage, GamePage } from './pages';
+import { AuthPage, LobbyPage, GamePage, ReplayPage } from './pages';
 
 function App() {
   return (
@@ -8,6 +8,8 @@ function App() {
         <Route path="/" element={<AuthPage />} />
         <Route path="/lobby" element={<LobbyPage />} />
         <Route path="/game/:matchId" element={<GamePage />} />
+        <Route path="/replay" element={<ReplayPage />} />
+        <Route path="/replay/:id" element={<ReplayPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Router>
@@ -0,0 +1,51 @@
+import { motion } from 'motion/react';
+import { BattleResult } from '../../types';
+import { Swords } from 'lucide-react';
+
+interface BattleResultPanelProps {
+  result: BattleResult;
+  currentPlayerId: string;
+}
+
+export function BattleResultPanel({ result, currentPlayerId }: BattleResultPanelProps) {
+  const isWinner = result.winnerId === currentPlayerId;
+  const title = result.isDraw ? 'Draw' : isWinner ? 'Victory' : 'Defeat';
+  const titleColor = result.isDraw
+    ? 'text-stone-300'
+    : isWinner
+      ? 'text-emerald-400'
+      : 'text-red-400';
+  const damageLabel = result.isDraw
+    ? 'Both players take'
+    : isWinner
+      ? 'Opponent takes'
+      : 'You take';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-stone-800/80 rounded-xl p-3 border-2 border-stone-700"
+    >
+      <h3 className="text-amber-400 font-bold text-sm mb-2 flex items-center gap-2">
+        <Swords size={14} />
+        Battle Result
+      </h3>
+
+      <div className={`text-lg font-bold ${titleColor}`}>{title}</div>
+
+      <div className="mt-2 space-y-1 text-xs">
+        {result.damageBreakdown.map(item => (
+          <div key={item.source} className="flex items-center justify-between text-stone-400">
+            <span className="truncate">{item.label}</span>
+            <span className="font-mono">+{item.amount}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-1 border-t border-stone-700 font-semibold text-stone-200">
+          <span>{damageLabel}</span>
+          <span className="font-mono text-red-400">{result.damageDealt} HP</span>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -9,6 +9,7 @@ interface BenchProps {
   onPieceRightClick?: (pieceId: string) => void;
   onPieceHover?: (piece: Piece | null) => void;
   onEmptySlotClick?: (slot: number) => void;
+  size?: number; // Slot count - augments can add slots
 }
 
 export function Bench({
@@ -18,9 +19,10 @@ export function Bench({
   onPieceRightClick,
   onPieceHover,
   onEmptySlotClick,
+  size = BENCH_SIZE,
 }: BenchProps) {
   // Create slot array with pieces
-  const slots = Array.from({ length: BENCH_SIZE }, (_, i) => {
+  const slots = Array.from({ length: size }, (_, i) => {
     return pieces.find(p => p.benchSlot === i) || null;
   });
 
@@ -29,11 +31,11 @@ export function Bench({
       <div className="flex items-center gap-2 mb-2">
         <span className="text-stone-400 text-sm font-semibold">Bench</span>
         <span className="text-stone-500 text-xs">
-          ({pieces.length}/{BENCH_SIZE})
+          ({pieces.length}/{size})
         </span>
       </div>
 
-      <div className="flex gap-2">
+      <div className="flex flex-wrap gap-2">
         {slots.map((piece, index) => (
           <motion.div
             key={index}
@@ -1,8 +1,67 @@
 import { useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { BoardState, Position, Piece, BOARD_WIDTH, BOARD_HEIGHT } from '../../types';
+import { TreePine, Waves, Shovel, CircleDot, BrickWall, Fence, Construction } from 'lucide-react';
+import {
+  BattleEvent,
+  BoardState,
+  ObstacleType,
+  Position,
+  Piece,
+  TerrainType,
+  BOARD_WIDTH,
+  BOARD_HEIGHT,
+} from '../../types';
 import { UnitCard } from './UnitCard';
 import { positionToKey } from '../../engine/board';
+import { TERRAIN_DEFINITIONS } from '../../engine/terrain';
+import { OBSTACLE_DEFINITIONS } from '../../engine/obstacles';
+
+const terrainStyles: Record<
+  Exclude<TerrainType, 'plain'>,
+  { icon: typeof TreePine; tile: string; color: string }
+> = {
+  forest: {
+    icon: TreePine,
+    tile: 'bg-emerald-900/50 border-emerald-700/50',
+    color: 'text-emerald-500',
+  },
+  river: { icon: Waves, tile: 'bg-sky-900/50 border-sky-700/50', color: 'text-sky-400' },
+  trench: { icon: Shovel, tile: 'bg-amber-950/60 border-amber-800/50', color: 'text-amber-600' },
+  crater: { icon: CircleDot, tile: 'bg-stone-950/80 border-stone-800/60', color: 'text-stone-500' },
+};
+
+const obstacleStyles: Record<ObstacleType, { icon: typeof BrickWall; color: string }> = {
+  sandbags: { icon: BrickWall, color: 'text-amber-300' },
+  barbed_wire: { icon: Fence, color: 'text-stone-300' },
+  tank_trap: { icon: Construction, color: 'text-orange-400' },
+};
+
+// Grid area a strafe event covers, as percentages of the board, plus the way the aircraft flew
+function getStrafeArea(event: BattleEvent) {
+  const from = event.from ?? { x: 0, y: 0 };
+  const to = event.to ?? from;
+  const width = event.width ?? 0;
+  const vertical = from.x === to.x && from.y !== to.y;
+
+  const minX = Math.max(0, Math.min(from.x, to.x) - (vertical ? width : 0));
+  const maxX = Math.min(BOARD_WIDTH - 1, Math.max(from.x, to.x) + (vertical ? width : 0));
+  const minY = Math.max(0, Math.min(from.y, to.y) - (vertical ? 0 : width));
+  const maxY = Math.min(BOARD_HEIGHT - 1, Math.max(from.y, to.y) + (vertical ? 0 : width));
+
+  // The streak grows from the tile the run started on
+  const origin = vertical ? (to.y < from.y ? 'bottom' : 'top') : to.x < from.x ? 'right' : 'left';
+
+  return {
+    vertical,
+    origin,
+    style: {
+      left: `${(minX / BOARD_WIDTH) * 100}%`,
+      top: `${(minY / BOARD_HEIGHT) * 100}%`,
+      width: `${((maxX - minX + 1) / BOARD_WIDTH) * 100}%`,
+      height: `${((maxY - minY + 1) / BOARD_HEIGHT) * 100}%`,
+    },
+  };
+}
 
 interface BoardGridProps {
   board: BoardState;
@@ -14,6 +73,7 @@ interface BoardGridProps {
   onPieceHover?: (piece: Piece | null) => void;
   isPreparation: boolean;
   highlightedTiles?: Position[];
+  strafeRuns?: BattleEvent[]; // Strafe events to animate over the board
 }
 
 export function BoardGrid({
@@ -26,6 +86,7 @@ export function BoardGrid({
   onPieceHover,
   isPreparation,
   highlightedTiles = [],
+  strafeRuns = [],
 }: BoardGridProps) {
   // Generate grid cells
   const grid = useMemo(() => {
@@ -60,7 +121,7 @@ export function BoardGrid({
     >
       {/* Grid */}
       <div
-        className="grid gap-1"
+        className="relative grid gap-1"
         style={{
           gridTemplateColumns: `repeat(${BOARD_WIDTH}, 1fr)`,
           gridTemplateRows: `repeat(${BOARD_HEIGHT}, 1fr)`,
@@ -71,6 +132,10 @@ export function BoardGrid({
           const pieceId = board.piecePositions[key];
           const piece = pieceId ? board.pieces[pieceId] : null;
           const isHighlighted = highlightedSet.has(key);
+          const terrain = board.terrain?.[key];
+          const terrainStyle = terrain && terrain !== 'plain' ? terrainStyles[terrain] : null;
+          const obstacle = board.obstacles?.[key];
+          const obstacleStyle = obstacle ? obstacleStyles[obstacle.type] : null;
           const isOwnedPiece = piece && piece.ownerId === playerId;
           const canPlace = isPreparation && isPlayerSide && !piece;
           const canInteract = isPreparation && isOwnedPiece;
@@ -81,9 +146,11 @@ export function BoardGrid({
               className={`
                 relative aspect-square rounded-lg border-2 transition-all duration-200
                 ${
-                  isPlayerSide
-                    ? 'bg-stone-800/60 border-stone-600/50'
-                    : 'bg-stone-900/40 border-stone-700/30'
+                  terrainStyle
+                    ? terrainStyle.tile
+                    : isPlayerSide
+                      ? 'bg-stone-800/60 border-stone-600/50'
+                      : 'bg-stone-900/40 border-stone-700/30'
                 }
                 ${isHighlighted ? 'bg-amber-500/30 border-amber-400' : ''}
                 ${canPlace && !piece ? 'hover:bg-amber-500/20 hover:border-amber-500/50 cursor-pointer' : ''}
@@ -105,6 +172,27 @@ export function BoardGrid({
                 {position.x},{position.y}
               </div>
 
+              {/* Terrain */}
+              {terrain && terrainStyle && (
+                <div
+                  className="absolute bottom-0.5 right-0.5"
+                  title={TERRAIN_DEFINITIONS[terrain].name}
+                >
+                  <terrainStyle.icon size={10} className={terrainStyle.color} />
+                </div>
+              )}
+
+              {/* Obstacle */}
+              {obstacle && obstacleStyle && (
+                <div
+                  className="absolute top-0.5 right-0.5 flex items-center gap-0.5 z-10"
+                  title={`${OBSTACLE_DEFINITIONS[obstacle.type].name} (${obstacle.hp}/${obstacle.maxHp})`}
+                >
+                  <obstacleStyle.icon size={10} className={obstacleStyle.color} />
+                  <span className="text-[8px] font-mono text-stone-400">{obstacle.hp}</span>
+                </div>
+              )}
+
               {/* Piece */}
               <AnimatePresence mode="popLayout">
                 {piece && (
@@ -134,6 +222,28 @@ export function BoardGrid({
             </motion.div>
           );
         })}
+
+        {/* Strafing runs */}
+        <AnimatePresence>
+          {strafeRuns.map(event => {
+            const { vertical, origin, style } = getStrafeArea(event);
+            return (
+              <motion.div
+                key={`${event.turn}-${event.pieceId}`}
+                className={`absolute pointer-events-none rounded-lg border border-sky-300/60 ${
+                  vertical
+                    ? 'bg-gradient-to-b from-sky-400/10 via-sky-300/40 to-sky-400/10'
+                    : 'bg-gradient-to-r from-sky-400/10 via-sky-300/40 to-sky-400/10'
+                }`}
+                style={{ ...style, transformOrigin: origin }}
+                initial={vertical ? { scaleY: 0, opacity: 1 } : { scaleX: 0, opacity: 1 }}
+                animate={vertical ? { scaleY: 1, opacity: 0 } : { scaleX: 1, opacity: 0 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.5, ease: 'easeOut' }}
+              />
+            );
+          })}
+        </AnimatePresence>
       </div>
 
       {/* Side labels */}
@@ -0,0 +1,67 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { Star } from 'lucide-react';
+import { CommanderId } from '../../types';
+import { COMMANDER_DEFINITIONS } from '../../engine/commanders';
+
+interface CommanderSelectProps {
+  offer: CommanderId[]; // Empty once a commander is picked
+  onSelect: (commanderId: CommanderId) => void;
+}
+
+// Match start pick - no way to close it without choosing
+export function CommanderSelect({ offer, onSelect }: CommanderSelectProps) {
+  return (
+    <AnimatePresence>
+      {offer.length > 0 && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+            className="relative w-full max-w-2xl bg-stone-900 border-2 border-stone-700 rounded-2xl shadow-2xl shadow-black/50"
+          >
+            <div className="px-6 py-4 border-b border-stone-700">
+              <h2 className="text-xl font-bold text-amber-400">Choose Your Commander</h2>
+              <p className="text-stone-400 text-sm">Their passive lasts for the whole match</p>
+            </div>
+
+            <div className="p-6 grid grid-cols-3 gap-3">
+              {offer.map(commanderId => {
+                const def = COMMANDER_DEFINITIONS[commanderId];
+                return (
+                  <motion.button
+                    key={commanderId}
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                    onClick={() => onSelect(commanderId)}
+                    className="flex flex-col items-center gap-2 p-4 rounded-xl border-2 border-stone-600 bg-stone-800/80 hover:border-amber-500 transition-colors text-center"
+                  >
+                    <div className="w-12 h-12 rounded-full bg-amber-500/20 border-2 border-amber-500/60 flex items-center justify-center">
+                      <Star size={22} className="text-amber-400 fill-current" />
+                    </div>
+                    <div>
+                      <div className="text-amber-400 font-bold">{def.name}</div>
+                      <div className="text-stone-500 text-xs">{def.title}</div>
+                    </div>
+                    <div className="text-stone-200 text-sm">{def.description}</div>
+                  </motion.button>
+                );
+              })}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default CommanderSelect;
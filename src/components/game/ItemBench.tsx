@@ -0,0 +1,69 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { Radio, Package, Trees, ShieldPlus } from 'lucide-react';
+import { ItemId } from '../../types';
+import { ITEM_DEFINITIONS } from '../../engine/items';
+
+interface ItemBenchProps {
+  items: ItemId[];
+  canEquip: boolean; // A piece is selected during preparation
+  onItemClick: (itemIndex: number) => void;
+}
+
+const itemIcons: Record<ItemId, typeof Radio> = {
+  radio: Radio,
+  ammo_crate: Package,
+  camouflage_net: Trees,
+  armor_plate: ShieldPlus,
+};
+
+export function ItemBench({ items, canEquip, onItemClick }: ItemBenchProps) {
+  return (
+    <div className="bg-stone-800/80 rounded-xl p-3 border-2 border-stone-700">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-stone-400 text-sm font-semibold">Items</span>
+        <span className="text-stone-500 text-xs">
+          {canEquip ? 'Click an item to equip the selected unit' : 'Select a unit to equip items'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 min-h-10">
+        <AnimatePresence mode="popLayout">
+          {items.map((itemId, index) => {
+            const def = ITEM_DEFINITIONS[itemId];
+            const Icon = itemIcons[itemId];
+            return (
+              <motion.button
+                key={`${itemId}-${index}`}
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0 }}
+                whileHover={canEquip ? { scale: 1.05 } : undefined}
+                title={`${def.name}: ${def.description}`}
+                disabled={!canEquip}
+                onClick={() => onItemClick(index)}
+                className={`
+                  w-10 h-10 rounded-lg border-2 flex items-center justify-center
+                  ${
+                    canEquip
+                      ? 'border-amber-500/60 bg-amber-500/10 text-amber-300 cursor-pointer'
+                      : 'border-stone-600 bg-stone-900/50 text-stone-400'
+                  }
+                `}
+              >
+                <Icon size={18} />
+              </motion.button>
+            );
+          })}
+        </AnimatePresence>
+
+        {items.length === 0 && (
+          <span className="text-stone-600 text-xs self-center">
+            Items are earned every few rounds
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ItemBench;
@@ -0,0 +1,88 @@
+import { motion } from 'motion/react';
+import { PieceBattleStats } from '../../types';
+import { UNIT_DEFINITIONS } from '../../types/units';
+import { getMvpScore } from '../../engine/battleStats';
+import { Trophy, Star } from 'lucide-react';
+
+// Pieces listed under the MVP
+const MAX_LISTED = 5;
+
+interface MvpPanelProps {
+  pieceStats: PieceBattleStats[]; // Best performance first
+  currentPlayerId: string;
+}
+
+function PieceName({ stats }: { stats: PieceBattleStats }) {
+  return (
+    <span className="flex items-center gap-1 truncate">
+      {UNIT_DEFINITIONS[stats.typeId]?.name ?? stats.typeId}
+      <span className="flex">
+        {Array.from({ length: stats.level }).map((_, i) => (
+          <Star key={i} size={8} className="text-amber-400 fill-amber-400" />
+        ))}
+      </span>
+    </span>
+  );
+}
+
+export function MvpPanel({ pieceStats, currentPlayerId }: MvpPanelProps) {
+  const [mvp, ...rest] = pieceStats;
+  if (!mvp || getMvpScore(mvp) === 0) return null;
+
+  const ownerLabel = (stats: PieceBattleStats) =>
+    stats.ownerId === currentPlayerId ? 'text-emerald-400' : 'text-red-400';
+
+  const mvpLines = [
+    { label: 'Damage dealt', value: mvp.damageDealt },
+    { label: 'Damage taken', value: mvp.damageTaken },
+    { label: 'Kills', value: mvp.kills },
+    { label: 'Damage blocked', value: mvp.damageBlocked },
+    { label: 'Healing done', value: mvp.healingDone },
+    { label: 'Tiles moved', value: mvp.tilesMoved },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-stone-800/80 rounded-xl p-3 border-2 border-stone-700"
+    >
+      <h3 className="text-amber-400 font-bold text-sm mb-2 flex items-center gap-2">
+        <Trophy size={14} />
+        MVP
+      </h3>
+
+      <div className={`text-base font-bold ${ownerLabel(mvp)}`}>
+        <PieceName stats={mvp} />
+      </div>
+
+      <div className="mt-2 space-y-1 text-xs">
+        {mvpLines.map(line => (
+          <div key={line.label} className="flex items-center justify-between text-stone-400">
+            <span>{line.label}</span>
+            <span className="font-mono">{line.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {rest.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-stone-700 space-y-1 text-xs">
+          <div className="flex justify-between text-stone-500">
+            <span>Also fought</span>
+            <span className="font-mono">dmg / kills</span>
+          </div>
+          {rest.slice(0, MAX_LISTED).map(stats => (
+            <div key={stats.pieceId} className="flex items-center justify-between">
+              <span className={ownerLabel(stats)}>
+                <PieceName stats={stats} />
+              </span>
+              <span className="font-mono text-stone-400">
+                {stats.damageDealt} / {stats.kills}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,6 +1,7 @@
 import { motion } from 'motion/react';
 import { Player } from '../../types';
-import { Heart, Trophy, Skull, Crown, Bot, User } from 'lucide-react';
+import { getCommander } from '../../engine/commanders';
+import { Heart, Trophy, Skull, Crown, Bot, User, Star } from 'lucide-react';
 
 interface PlayerListProps {
   players: Player[];
@@ -23,6 +24,7 @@ export function PlayerList({ players, currentPlayerId, onPlayerClick }: PlayerLi
         {sortedPlayers.map((player, index) => {
           const isCurrentPlayer = player.id === currentPlayerId;
           const isAlive = player.isAlive && player.hp > 0;
+          const commander = getCommander(player.commanderId);
 
           return (
             <motion.div
@@ -80,6 +82,17 @@ export function PlayerList({ players, currentPlayerId, onPlayerClick }: PlayerLi
                   {index === 0 && isAlive && <Crown size={12} className="text-amber-400" />}
                 </div>
 
+                {/* Commander */}
+                {commander && (
+                  <div
+                    className="flex items-center gap-1 mt-0.5 text-[10px] text-stone-400 truncate"
+                    title={`${commander.title}: ${commander.description}`}
+                  >
+                    <Star size={10} className="text-amber-500 fill-current" />
+                    {commander.name}
+                  </div>
+                )}
+
                 {/* Streaks */}
                 {(player.winStreak > 0 || player.loseStreak > 0) && (
                   <div className="flex gap-1 mt-0.5">
@@ -1,6 +1,6 @@
 import { motion } from 'motion/react';
-import { SynergyProgress } from '../../engine/synergy';
-import { Shield, Wrench, Target, Plane, Users } from 'lucide-react';
+import { SynergyProgress, isFaction } from '../../engine/synergy';
+import { Shield, Wrench, Target, Plane, Users, HeartPulse, Flag } from 'lucide-react';
 
 interface SynergyPanelProps {
   synergies: SynergyProgress[];
@@ -12,6 +12,12 @@ const traitIcons: Record<string, typeof Shield> = {
   armor: Shield,
   artillery: Target,
   air: Plane,
+  medic: HeartPulse,
+  us: Flag,
+  uk: Flag,
+  ussr: Flag,
+  germany: Flag,
+  japan: Flag,
 };
 
 const traitColors: Record<string, { active: string; inactive: string }> = {
@@ -26,13 +32,27 @@ const traitColors: Record<string, { active: string; inactive: string }> = {
   },
   artillery: { active: 'text-red-400 bg-red-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
   air: { active: 'text-purple-400 bg-purple-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  medic: { active: 'text-rose-400 bg-rose-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  us: { active: 'text-sky-400 bg-sky-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  uk: { active: 'text-indigo-400 bg-indigo-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  ussr: { active: 'text-red-500 bg-red-600/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  germany: { active: 'text-zinc-300 bg-zinc-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
+  japan: { active: 'text-pink-400 bg-pink-500/20', inactive: 'text-stone-500 bg-stone-700/50' },
 };
 
+// Progress toward the next breakpoint - full once the top tier is reached
+function getNextTierProgress(synergy: SynergyProgress): number {
+  return synergy.nextCount === null ? 1 : synergy.currentCount / synergy.nextCount;
+}
+
 export function SynergyPanel({ synergies }: SynergyPanelProps) {
-  // Sort: active first, then by progress
-  const sortedSynergies = [...synergies].sort((a, b) => {
-    if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
-    return b.currentCount / b.triggerCount - a.currentCount / a.triggerCount;
+  // Factions only show up once a piece of that faction is deployed
+  const shownSynergies = synergies.filter(s => !isFaction(s.traitType) || s.currentCount > 0);
+
+  // Sort: highest tier first, then by progress toward the next breakpoint
+  const sortedSynergies = [...shownSynergies].sort((a, b) => {
+    if (a.tier !== b.tier) return b.tier - a.tier;
+    return getNextTierProgress(b) - getNextTierProgress(a);
   });
 
   return (
@@ -43,7 +63,7 @@ export function SynergyPanel({ synergies }: SynergyPanelProps) {
         {sortedSynergies.map(synergy => {
           const Icon = traitIcons[synergy.traitType] || Shield;
           const colors = traitColors[synergy.traitType] || traitColors.infantry;
-          const progress = synergy.currentCount / synergy.triggerCount;
+          const progress = getNextTierProgress(synergy);
 
           return (
             <motion.div
@@ -80,10 +100,23 @@ export function SynergyPanel({ synergies }: SynergyPanelProps) {
                       ${synergy.isActive ? 'text-current' : 'text-stone-500'}
                     `}
                     >
-                      {synergy.currentCount}/{synergy.triggerCount}
+                      {synergy.currentCount}/{synergy.nextCount ?? synergy.currentCount}
                     </span>
                   </div>
 
+                  {/* Breakpoints - reached ones highlighted */}
+                  <div className="flex items-center gap-1 text-[10px] font-mono">
+                    {synergy.breakpoints.map((count, i) => (
+                      <span
+                        key={count}
+                        className={i < synergy.tier ? 'text-current font-bold' : 'text-stone-600'}
+                      >
+                        {i > 0 && <span className="text-stone-600 mr-1">·</span>}
+                        {count}
+                      </span>
+                    ))}
+                  </div>
+
                   {/* Progress Bar */}
                   <div className="mt-1 h-1 bg-stone-700 rounded-full overflow-hidden">
                     <motion.div
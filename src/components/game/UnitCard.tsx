@@ -1,7 +1,7 @@
 import { motion } from 'motion/react';
-import { Piece, ShopCard } from '../../types';
-import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS } from '../../types/units';
-import { Star, Shield, Sword, Zap, Coins } from 'lucide-react';
+import { Piece, ShopCard, StatusEffectType } from '../../types';
+import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS, FACTION_DEFINITIONS } from '../../types/units';
+import { Star, Shield, Sword, Zap, Coins, Ban, ChevronsDown, Flame, Anchor } from 'lucide-react';
 
 interface UnitCardProps {
   piece?: Piece;
@@ -30,6 +30,7 @@ const rarityColors: Record<number, string> = {
   1: 'from-stone-600 to-stone-700 border-stone-500',
   2: 'from-emerald-800 to-emerald-900 border-emerald-500',
   3: 'from-amber-700 to-amber-900 border-amber-400',
+  4: 'from-purple-800 to-purple-950 border-purple-400',
 };
 
 const starColors: Record<number, string> = {
@@ -38,6 +39,13 @@ const starColors: Record<number, string> = {
   3: 'text-amber-400',
 };
 
+const statusIcons: Record<StatusEffectType, { icon: typeof Ban; color: string }> = {
+  stun: { icon: Ban, color: 'text-yellow-300' },
+  suppression: { icon: ChevronsDown, color: 'text-stone-300' },
+  burning: { icon: Flame, color: 'text-orange-400' },
+  pinned: { icon: Anchor, color: 'text-sky-300' },
+};
+
 export function UnitCard({
   piece,
   shopCard,
@@ -57,6 +65,7 @@ export function UnitCard({
   const level = piece?.level || 1;
   const cost = shopCard?.cost || def.cost;
   const traits = piece?.traits || shopCard?.traits || [];
+  const faction = piece?.faction || shopCard?.faction;
 
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -122,6 +131,16 @@ export function UnitCard({
         </div>
       )}
 
+      {/* Faction Badge */}
+      {faction && size !== 'sm' && (
+        <div
+          className="absolute bottom-7 left-0.5 bg-stone-900/80 text-[7px] px-1 rounded text-stone-200 font-bold"
+          title={FACTION_DEFINITIONS[faction].name}
+        >
+          {FACTION_DEFINITIONS[faction].shortName}
+        </div>
+      )}
+
       {/* Bottom Info Bar */}
       <div className="absolute bottom-0 left-0 right-0 bg-black/70 px-1 py-0.5">
         <div className="text-[8px] font-bold text-center text-white truncate">{def.name}</div>
@@ -169,10 +188,17 @@ export function UnitCard({
         </div>
       )}
 
-      {/* Fortification Indicator */}
-      {piece?.fortification && piece.fortification.remainingTurns > 0 && (
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2">
-          <Shield size={size === 'sm' ? 16 : 24} className="text-blue-400/50" />
+      {/* Status Effects */}
+      {piece?.statusEffects && piece.statusEffects.length > 0 && (
+        <div className="absolute top-3 left-0.5 flex flex-col gap-0.5">
+          {piece.statusEffects.map(effect => {
+            const { icon: Icon, color } = statusIcons[effect.type];
+            return (
+              <span key={effect.type} title={`${effect.type} x${effect.stacks}`}>
+                <Icon size={size === 'sm' ? 8 : 10} className={color} />
+              </span>
+            );
+          })}
         </div>
       )}
     </motion.div>
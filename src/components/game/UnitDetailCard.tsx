@@ -1,7 +1,8 @@
 import { motion, AnimatePresence } from 'motion/react';
 import { Shield, Sword, Heart, Zap, Target, Footprints } from 'lucide-react';
 import { Piece, ShopCard as ShopCardType, UnitTypeId } from '../../types';
-import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS } from '../../types/units';
+import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS, FACTION_DEFINITIONS } from '../../types/units';
+import { ITEM_DEFINITIONS } from '../../engine/items';
 
 interface UnitDetailCardProps {
   // Can accept either a Piece (from board/bench) or ShopCard (from shop)
@@ -26,6 +27,8 @@ export function UnitDetailCard({ piece, shopCard, visible }: UnitDetailCardProps
 
   // Traits from piece or shopCard
   const traits = piece?.traits || shopCard?.traits || [];
+  const faction = piece?.faction || shopCard?.faction;
+  const items = piece?.items || [];
 
   if (!unitDef) return null;
 
@@ -65,6 +68,11 @@ export function UnitDetailCard({ piece, shopCard, visible }: UnitDetailCardProps
                       {trait}
                     </span>
                   ))}
+                {faction && (
+                  <span className="bg-sky-600/30 text-sky-300 px-1.5 py-0.5 rounded text-xs">
+                    {FACTION_DEFINITIONS[faction].name}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -116,6 +124,29 @@ export function UnitDetailCard({ piece, shopCard, visible }: UnitDetailCardProps
             </div>
           )}
 
+          {/* Items Section */}
+          {items.length > 0 && (
+            <div className="px-3 pb-3">
+              <h5 className="text-xs font-bold text-stone-500 mb-1.5 uppercase tracking-wide">
+                Items
+              </h5>
+              <div className="space-y-1.5">
+                {items.map((itemId, i) => {
+                  const itemDef = ITEM_DEFINITIONS[itemId];
+                  return (
+                    <div
+                      key={i}
+                      className="bg-amber-900/20 border border-amber-500/20 rounded-lg px-2 py-1.5"
+                    >
+                      <span className="text-amber-300 text-xs font-bold">{itemDef.name}</span>
+                      <p className="text-xs text-stone-400 mt-0.5">{itemDef.description}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Footer hint */}
           <div className="px-3 py-2 bg-stone-800/50 text-center">
             <span className="text-stone-500 text-xs">Hover over units to see details</span>
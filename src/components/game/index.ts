@@ -2,7 +2,12 @@ export { UnitCard } from './UnitCard';
 export { UnitDetailCard } from './UnitDetailCard';
 export { BoardGrid } from './BoardGrid';
 export { Bench } from './Bench';
+export { ItemBench } from './ItemBench';
 export { Shop } from './Shop';
 export { PlayerList } from './PlayerList';
+export { CommanderSelect } from './CommanderSelect';
+export { AugmentSelect } from './AugmentSelect';
 export { SynergyPanel } from './SynergyPanel';
 export { PhaseTimer } from './PhaseTimer';
+export { BattleResultPanel } from './BattleResultPanel';
+export { MvpPanel } from './MvpPanel';
@@ -0,0 +1,129 @@
+import { AugmentId, BENCH_SIZE, Piece, UnitTypeId } from '../types';
+
+// =============================================
+// Augments
+// On set rounds each player picks one of a few randomly offered augments - a
+// lasting rule change for that player. Like commanders, an augment is plain
+// data read by the system it changes: the bench, the economy, the shop (a
+// free unit when picked), or the pieces' stats at battle start.
+// =============================================
+
+// Stat bonus for some unit types, added to the owner's pieces when a battle starts
+export interface AugmentStatBonus {
+  typeIds: UnitTypeId[];
+  maxHp: number;
+  defense: number;
+  range: number;
+}
+
+export interface AugmentDefinition {
+  id: AugmentId;
+  name: string;
+  description: string;
+  benchSlotBonus: number; // Extra bench slots
+  roundIncomeBonus: number; // Extra gold every round
+  freeUnitCost: number | null; // Cost tier of the free unit granted when picked
+  statBonus: AugmentStatBonus | null;
+}
+
+export const AUGMENT_DEFINITIONS: Record<AugmentId, AugmentDefinition> = {
+  reserve_barracks: {
+    id: 'reserve_barracks',
+    name: 'Reserve Barracks',
+    description: '+2 bench slots',
+    benchSlotBonus: 2,
+    roundIncomeBonus: 0,
+    freeUnitCost: null,
+    statBonus: null,
+  },
+  supply_drop: {
+    id: 'supply_drop',
+    name: 'Supply Drop',
+    description: 'A free 2-cost unit right away',
+    benchSlotBonus: 0,
+    roundIncomeBonus: 0,
+    freeUnitCost: 2,
+    statBonus: null,
+  },
+  forward_observers: {
+    id: 'forward_observers',
+    name: 'Forward Observers',
+    description: 'Artillery +1 range',
+    benchSlotBonus: 0,
+    roundIncomeBonus: 0,
+    freeUnitCost: null,
+    statBonus: { typeIds: ['artillery'], maxHp: 0, defense: 0, range: 1 },
+  },
+  war_bonds: {
+    id: 'war_bonds',
+    name: 'War Bonds',
+    description: '+2 gold every round',
+    benchSlotBonus: 0,
+    roundIncomeBonus: 2,
+    freeUnitCost: null,
+    statBonus: null,
+  },
+  reinforced_hulls: {
+    id: 'reinforced_hulls',
+    name: 'Reinforced Hulls',
+    description: 'Tanks and armored cars +1 defense',
+    benchSlotBonus: 0,
+    roundIncomeBonus: 0,
+    freeUnitCost: null,
+    statBonus: { typeIds: ['tank', 'armored_car'], maxHp: 0, defense: 1, range: 0 },
+  },
+  veteran_riflemen: {
+    id: 'veteran_riflemen',
+    name: 'Veteran Riflemen',
+    description: 'Infantry +2 max HP',
+    benchSlotBonus: 0,
+    roundIncomeBonus: 0,
+    freeUnitCost: null,
+    statBonus: { typeIds: ['infantry'], maxHp: 2, defense: 0, range: 0 },
+  },
+};
+
+// Rounds whose preparation phase offers an augment
+export const AUGMENT_ROUNDS = [2, 5, 9];
+
+// Augments offered per pick
+export const AUGMENT_OFFER_SIZE = 3;
+
+// Augment picks a player should have made by this round
+export function getAugmentPicksDue(round: number): number {
+  return AUGMENT_ROUNDS.filter(r => r <= round).length;
+}
+
+// Random augments the player doesn't have yet
+export function rollAugmentOffer(owned: AugmentId[]): AugmentId[] {
+  const ids = (Object.keys(AUGMENT_DEFINITIONS) as AugmentId[]).filter(id => !owned.includes(id));
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  return ids.slice(0, AUGMENT_OFFER_SIZE);
+}
+
+export function getBenchSize(augments: AugmentId[]): number {
+  return augments.reduce((size, id) => size + AUGMENT_DEFINITIONS[id].benchSlotBonus, BENCH_SIZE);
+}
+
+export function getAugmentIncome(augments: AugmentId[]): number {
+  return augments.reduce((gold, id) => gold + AUGMENT_DEFINITIONS[id].roundIncomeBonus, 0);
+}
+
+// A piece with its owner's augment stat bonuses - the bonus HP is gained right away
+export function applyAugmentStatEffects(piece: Piece, augments: AugmentId[]): Piece {
+  const result = { ...piece };
+
+  for (const id of augments) {
+    const bonus = AUGMENT_DEFINITIONS[id].statBonus;
+    if (!bonus || !bonus.typeIds.includes(piece.typeId)) continue;
+    result.maxHp += bonus.maxHp;
+    result.currentHp += bonus.maxHp;
+    result.defense += bonus.defense;
+    result.range += bonus.range;
+  }
+
+  return result;
+}
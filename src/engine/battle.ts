@@ -1,4 +1,14 @@
-import { BoardState, Piece, Position, BattleEvent, BattleResult, PieceCombatInfo } from '../types';
+import {
+  BoardState,
+  Piece,
+  Position,
+  BattleEvent,
+  BattleResult,
+  BattleDecision,
+  Obstacle,
+  ObstacleType,
+  PieceCombatInfo,
+} from '../types';
 import { UNIT_DEFINITIONS } from '../types/units';
 import {
   getPiecePosition,
@@ -6,17 +16,77 @@ import {
   getAlivePieces,
   getAlivePiecesByOwner,
   movePiece,
+  takePieceOffTile,
   getRadiusAoePositions,
-  getLineSweepPositions,
+  getConePositions,
   getPieceAtPosition,
-  positionToKey,
+  getAdjacentPositions,
+  getDiagonalPositions,
+  getDistance,
+  isPositionOccupied,
+  isValidPosition,
+  keyToPosition,
 } from './board';
+import { TurnDistanceFields, getNextPiecePosition } from './pathfinding';
+import { StrafeRun, planStrafeRun } from './strafing';
 import {
-  Pathfinder,
-  findNearestEnemy,
+  TargetCandidate,
+  canAttack,
+  canHeal,
+  isHealer,
   findEnemyInRange,
-  getNextPiecePosition,
-} from './pathfinding';
+  findTargetToApproach,
+  getTargetCandidates,
+} from './targeting';
+import { BattleRng, createRng, nextRandom, randomInt } from './random';
+import { getPieceModifiers } from './upgrades';
+import { getAttackCooldownReduction, getItems, hasItem } from './items';
+import { getBlitzChance, getTraitDamageBonus } from './traits';
+import { calculateLoserDamage, calculateDrawDamage } from './economy';
+import { getBattleCommander } from './commanders';
+import {
+  applyBattleTerrain,
+  getTerrain,
+  getShelledTerrain,
+  getTerrainDefenseBonus,
+  getMovementProfile,
+  isVehicle,
+  setTerrain,
+} from './terrain';
+import {
+  OBSTACLE_DEFINITIONS,
+  OBSTACLE_BASE_DURATION,
+  OBSTACLE_DURATION_STEP,
+  MAX_OBSTACLES_PER_ENGINEER,
+  countObstaclesBuiltBy,
+  getCoveringSandbags,
+  getObstacle,
+  getTrampleDamage,
+  setObstacle,
+} from './obstacles';
+import {
+  BattleStats,
+  initializeBattleStats,
+  rankPieceStats,
+  recordBlocked,
+  recordDamage,
+  recordHealing,
+  recordMove,
+} from './battleStats';
+import {
+  applyStatusEffect,
+  tickStatusEffects,
+  getStatusEffect,
+  hasStatusEffect,
+  getOnHitStatusEffects,
+  BURNING_TICK_INTERVAL,
+} from './statusEffects';
+import {
+  BattleSynergies,
+  calculateBattleSynergies,
+  applyBattleSynergyBonuses,
+  getSynergySpecialValue,
+} from './synergy';
 
 // =============================================
 // Battle Simulation Engine
@@ -27,13 +97,41 @@ const INITIAL_MOVE_DELAY = 15;
 const INITIAL_ATTACK_DELAY = 15;
 const ATTACK_COOLDOWN = 20;
 const MOVE_COOLDOWN = 10;
+const MEDIC_BASE_HEAL = 2; // HP restored by a 1-star medic
+const BOMB_DELAY = 10; // Turns between a bomb's release and its explosion
+
+// Turns of regular combat - a battle still going after this goes into overtime
+export const REGULATION_TURNS = 200;
+
+// Overtime length, and how often every unit gains +1 attack during it
+export const OVERTIME_TURNS = 100;
+export const OVERTIME_ATTACK_INTERVAL = 10;
+
+// Hard cap on simulated turns - shared by runBattle and the run-battle edge function
+export const MAX_BATTLE_TURNS = REGULATION_TURNS + OVERTIME_TURNS;
+
+// Bump whenever a change makes the same board and seed play out differently,
+// so recorded replays can tell which rules they were fought under
+export const BATTLE_RULES_VERSION = 17;
+
+// Bomb released by a heavy bomber, waiting to explode
+export interface PendingBomb {
+  bomberId: string;
+  target: Position; // Centre of the blast
+  landsAtTurn: number;
+}
 
 export interface BattleState {
   board: BoardState;
-  combatInfo: Map<string, PieceCombatInfo>;
-  events: BattleEvent[];
+  combatInfo: Map<string, PieceCombatInfo>; // Updated in place and shared, like events
+  events: BattleEvent[]; // Append-only - shared with the states that follow, never copied
   turn: number;
   isFinished: boolean;
+  seed: number; // Seed the battle was started with (same seed + board = same battle)
+  rng: BattleRng; // Current position in the seeded random stream
+  synergies: BattleSynergies; // Each side's synergies, fixed at battle start
+  stats: BattleStats; // Running per-piece totals - updated in place, like events
+  bombs: PendingBomb[]; // Released bombs that haven't exploded yet
 }
 
 // Initialize combat info for all pieces
@@ -52,16 +150,29 @@ function initializeCombatInfo(board: BoardState): Map<string, PieceCombatInfo> {
   return combatInfo;
 }
 
-// Calculate damage with all modifiers
+export function isOvertime(turn: number): boolean {
+  return turn > REGULATION_TURNS;
+}
+
+// Attack every unit has gained by this turn of overtime (+1 per interval, starting right away)
+export function getOvertimeAttackBonus(turn: number): number {
+  if (!isOvertime(turn)) return 0;
+  return Math.floor((turn - REGULATION_TURNS - 1) / OVERTIME_ATTACK_INTERVAL) + 1;
+}
+
+// Calculate damage with all modifiers, and how much of it covering sandbags soaked up
 function calculateDamage(
   attacker: Piece,
   defender: Piece,
-  _attackerDef: (typeof UNIT_DEFINITIONS)[string],
-  defenderDef: (typeof UNIT_DEFINITIONS)[string]
-): number {
+  attackerDef: (typeof UNIT_DEFINITIONS)[string],
+  defenderDef: (typeof UNIT_DEFINITIONS)[string],
+  board: BoardState,
+  defenderPos: Position,
+  turn: number,
+  rng: BattleRng
+): { damage: number; blocked: number; sandbags: Obstacle | null } {
   // Base damage is random between min and max
-  const baseDamage =
-    attacker.attackMin + Math.floor(Math.random() * (attacker.attackMax - attacker.attackMin + 1));
+  const baseDamage = randomInt(rng, attacker.attackMin, attacker.attackMax);
   let damage = baseDamage;
 
   // Apply bonus damage based on unit type matchups
@@ -73,9 +184,9 @@ function calculateDamage(
   if (attacker.typeId === 'tank' && defender.typeId === 'armored_car') {
     damage += 1;
   }
-  // Anti-air vs aircraft: bonus damage (4-5 instead of 2-3)
-  if (attacker.typeId === 'anti_air' && defender.typeId === 'aircraft') {
-    damage += 2; // Additional +2 to reach 4-5 damage
+  // Anti-air vs air units: bonus damage (4-5 instead of 2-3), more with star upgrades
+  if (attacker.typeId === 'anti_air' && getMovementProfile(defender) === 'air') {
+    damage += 2 + getPieceModifiers(attacker).antiAirDamage; // Additional +2 to reach 4-5 damage
   }
   // Anti-air vs heavy armor: half damage
   if (
@@ -86,51 +197,172 @@ function calculateDamage(
   }
 
   // Apply trait bonuses
-  for (const trait of attacker.traits) {
-    switch (trait.traitId) {
-      case 'armor_pierce':
-        // Bonus damage vs armor units
-        if (defenderDef.traits.includes('armor')) {
-          damage += trait.level;
-        }
-        break;
-      case 'heavy_cannon':
-        damage += trait.level;
-        break;
-    }
-  }
+  damage += getTraitDamageBonus(attacker, defenderDef);
 
-  // Apply defense reduction
-  let effectiveDefense = defender.defense;
+  // Overtime pushes the battle towards a decision
+  damage += getOvertimeAttackBonus(turn);
 
-  // Fortification armor
-  if (defender.fortification && defender.fortification.remainingTurns > 0) {
-    effectiveDefense += defender.fortification.armor;
-  }
+  // Suppressed attackers deal less damage
+  damage -= getStatusEffect(attacker, 'suppression')?.stacks ?? 0;
+
+  // Apply defense reduction - precision shots go straight through it
+  let effectiveDefense = attackerDef.attackType === 'precision' ? 0 : defender.defense;
 
-  damage = Math.max(1, damage - effectiveDefense);
+  // Flames reach past cover and sandbags
+  const ignoresFortification = attackerDef.attackType === 'cone';
 
-  // Aircraft dodge chance from synergy
-  if (defender.typeId === 'aircraft') {
-    // Check for air synergy dodge (handled elsewhere)
+  // Cover from the tile the defender stands on
+  if (!ignoresFortification) {
+    effectiveDefense += getTerrainDefenseBonus(board, defender, defenderPos, attacker);
   }
 
-  return damage;
+  // Sandbags the defender stands behind
+  const sandbags = ignoresFortification
+    ? null
+    : getCoveringSandbags(board, defender, defenderPos, attacker);
+  const unprotectedDamage = Math.max(1, damage - effectiveDefense);
+  damage = Math.max(1, damage - effectiveDefense - (sandbags?.armor ?? 0));
+
+  return { damage, blocked: unprotectedDamage - damage, sandbags };
+}
+
+// Chance to follow an attack up with another one: the Blitz trait, plus the German synergy
+function getAttackAgainChance(state: BattleState, attacker: Piece): number {
+  const factionBonus =
+    attacker.faction === 'germany'
+      ? getSynergySpecialValue(state.synergies, attacker.ownerId, 'faction_blitz')
+      : 0;
+  const commanderBonus = getBattleCommander(state.board, attacker.ownerId)?.blitzChance ?? 0;
+  return getBlitzChance(attacker) + factionBonus + commanderBonus;
 }
 
-// Check if attacker can attack defender (type restrictions)
-function canAttack(attacker: Piece, defender: Piece): boolean {
-  // Artillery cannot attack aircraft
-  if (attacker.typeId === 'artillery' && defender.typeId === 'aircraft') {
+// Air synergy: air units may dodge damage from anything but anti-air
+function rollDodge(state: BattleState, attacker: Piece, defender: Piece, rng: BattleRng): boolean {
+  if (getMovementProfile(defender) !== 'air' || attacker.typeId === 'anti_air') {
     return false;
   }
-
-  // Engineer cannot attack
-  if (attacker.typeId === 'engineer') {
+  const dodgeChance = getSynergySpecialValue(state.synergies, defender.ownerId, 'dodge_chance');
+  if (dodgeChance <= 0) {
     return false;
   }
+  return nextRandom(rng) < dodgeChance;
+}
+
+// Deal an attack's damage to every piece it hits - dodges, camouflage, sandbags, deaths and status
+// effects included. Hit pieces are written into board.pieces, which must already be a copy.
+function applyAttackHits(
+  state: BattleState,
+  board: BoardState,
+  rng: BattleRng,
+  attacker: Piece,
+  attackerPos: Position,
+  targets: { piece: Piece; pos: Position }[]
+): BoardState {
+  const { events } = state;
+
+  for (const { piece: targetPiece, pos } of targets) {
+    // A camouflage net makes the first hit miss, then is torn off for the rest of the battle
+    const camouflaged = hasItem(targetPiece, 'camouflage_net');
+    if (camouflaged) {
+      const items = [...getItems(targetPiece)];
+      items.splice(items.indexOf('camouflage_net'), 1);
+      board.pieces[targetPiece.id] = { ...board.pieces[targetPiece.id], items };
+    }
 
-  return true;
+    if (camouflaged || rollDodge(state, attacker, targetPiece, rng)) {
+      events.push({
+        turn: state.turn,
+        type: 'attack',
+        pieceId: attacker.id,
+        targetId: targetPiece.id,
+        from: attackerPos,
+        to: pos,
+      });
+      events.push({
+        turn: state.turn,
+        type: 'dodge',
+        pieceId: targetPiece.id,
+        targetId: attacker.id,
+      });
+      continue;
+    }
+
+    const { damage, blocked, sandbags } = calculateDamage(
+      attacker,
+      targetPiece,
+      UNIT_DEFINITIONS[attacker.typeId],
+      UNIT_DEFINITIONS[targetPiece.typeId],
+      board,
+      pos,
+      state.turn,
+      rng
+    );
+    const newHp = Math.max(0, targetPiece.currentHp - damage);
+    recordDamage(
+      state.stats,
+      attacker.id,
+      targetPiece.id,
+      targetPiece.currentHp - newHp,
+      newHp <= 0
+    );
+
+    board.pieces[targetPiece.id] = {
+      ...board.pieces[targetPiece.id],
+      currentHp: newHp,
+    };
+
+    // Attack event
+    events.push({
+      turn: state.turn,
+      type: 'attack',
+      pieceId: attacker.id,
+      targetId: targetPiece.id,
+      from: attackerPos,
+      to: pos,
+      damage,
+    });
+
+    // Hit event
+    events.push({
+      turn: state.turn,
+      type: 'hit',
+      pieceId: targetPiece.id,
+      damage,
+    });
+
+    // Sandbags wear down with every hit they cover
+    if (sandbags) {
+      recordBlocked(state.stats, sandbags.builderId, blocked);
+      board = damageObstacle(board, state.turn, attacker.id, pos, 1, events);
+    }
+
+    // Death event if HP reaches 0
+    if (newHp <= 0) {
+      events.push({
+        turn: state.turn,
+        type: 'death',
+        pieceId: targetPiece.id,
+      });
+      continue;
+    }
+
+    // Status effects from the hit
+    for (const type of getOnHitStatusEffects(attacker, targetPiece)) {
+      const applied = applyStatusEffect(board.pieces[targetPiece.id], type, attacker.id);
+      if (!applied.effect) continue;
+
+      board.pieces[targetPiece.id] = applied.piece;
+      events.push({
+        turn: state.turn,
+        type: 'status_applied',
+        pieceId: targetPiece.id,
+        targetId: attacker.id,
+        status: applied.effect,
+      });
+    }
+  }
+
+  return board;
 }
 
 // Process attack action
@@ -139,37 +371,47 @@ function processAttack(
   attacker: Piece,
   attackerPos: Position,
   target: Piece,
-  targetPos: Position
+  targetPos: Position,
+  isExtraAttack: boolean = false
 ): BattleState {
   const attackerDef = UNIT_DEFINITIONS[attacker.typeId];
-  const defenderDef = UNIT_DEFINITIONS[target.typeId];
 
   if (!canAttack(attacker, target)) {
     return state;
   }
 
-  const events: BattleEvent[] = [...state.events];
-  const board = { ...state.board, pieces: { ...state.board.pieces } };
+  const { events } = state;
+  let board = { ...state.board, pieces: { ...state.board.pieces } };
+  const rng = { ...state.rng };
 
   // Determine attack targets based on attack type
   let targets: { piece: Piece; pos: Position }[] = [];
+  let strafe: StrafeRun | null = null;
+  let shelledTiles: Position[] = [];
+  let bombs = state.bombs;
 
   switch (attackerDef.attackType) {
     case 'melee':
     case 'ranged':
+    case 'precision':
       targets = [{ piece: target, pos: targetPos }];
       break;
 
     case 'aoe_radius': {
       // Hit target and adjacent positions
-      const aoePositions = getRadiusAoePositions(targetPos, board);
+      const aoePositions = getRadiusAoePositions(
+        targetPos,
+        board,
+        getPieceModifiers(attacker).aoeRadius
+      );
+      shelledTiles = aoePositions;
       for (const pos of aoePositions) {
         const pieceAtPos = getPieceAtPosition(pos, board);
         // AOE doesn't hit aircraft (for artillery)
         if (
           pieceAtPos &&
           pieceAtPos.ownerId !== attacker.ownerId &&
-          !(attacker.typeId === 'artillery' && pieceAtPos.typeId === 'aircraft')
+          canAttack(attacker, pieceAtPos)
         ) {
           targets.push({ piece: pieceAtPos, pos });
         }
@@ -177,98 +419,163 @@ function processAttack(
       break;
     }
 
-    case 'line_sweep': {
-      // Determine sweep direction based on facing
-      const direction = attacker.facingUp ? 'vertical' : 'horizontal';
-      const sweepPositions = getLineSweepPositions(attackerPos, direction, attacker.range, board);
-      for (const pos of sweepPositions) {
+    case 'cone': {
+      // Flames wash over the target and the tiles behind it
+      for (const pos of getConePositions(attackerPos, targetPos, board)) {
         const pieceAtPos = getPieceAtPosition(pos, board);
-        if (pieceAtPos && pieceAtPos.ownerId !== attacker.ownerId) {
+        if (
+          pieceAtPos &&
+          pieceAtPos.ownerId !== attacker.ownerId &&
+          pieceAtPos.currentHp > 0 &&
+          canAttack(attacker, pieceAtPos)
+        ) {
           targets.push({ piece: pieceAtPos, pos });
         }
       }
-      // Also include primary target
-      if (!targets.find(t => t.piece.id === target.id)) {
-        targets.push({ piece: target, pos: targetPos });
+      break;
+    }
+
+    case 'delayed_aoe': {
+      // The bomb only hits whatever is under it when it lands
+      const landsAtTurn = state.turn + BOMB_DELAY;
+      bombs = [...bombs, { bomberId: attacker.id, target: targetPos, landsAtTurn }];
+      events.push({
+        turn: state.turn,
+        type: 'bomb_dropped',
+        pieceId: attacker.id,
+        targetId: target.id,
+        from: attackerPos,
+        to: targetPos,
+        landsAtTurn,
+      });
+      break;
+    }
+
+    case 'line_sweep': {
+      // Strafing run along a line through the target
+      strafe = planStrafeRun(board, attacker, attackerPos, targetPos);
+      for (const pos of strafe.tiles) {
+        const pieceAtPos = getPieceAtPosition(pos, board);
+        if (pieceAtPos && pieceAtPos.ownerId !== attacker.ownerId && pieceAtPos.currentHp > 0) {
+          targets.push({ piece: pieceAtPos, pos });
+        }
       }
+
+      events.push({
+        turn: state.turn,
+        type: 'strafe',
+        pieceId: attacker.id,
+        targetId: target.id,
+        from: strafe.start,
+        to: strafe.end,
+        width: strafe.width,
+      });
       break;
     }
   }
 
-  // Apply damage to all targets
-  for (const { piece: targetPiece, pos } of targets) {
-    const damage = calculateDamage(
-      attacker,
-      targetPiece,
-      attackerDef,
-      UNIT_DEFINITIONS[targetPiece.typeId]
-    );
-    const newHp = Math.max(0, targetPiece.currentHp - damage);
+  board = applyAttackHits(state, board, rng, attacker, attackerPos, targets);
 
-    board.pieces[targetPiece.id] = {
-      ...board.pieces[targetPiece.id],
-      currentHp: newHp,
-    };
+  // Shells blow holes in the enemy's obstacles
+  for (const pos of shelledTiles) {
+    const obstacle = getObstacle(board, pos);
+    if (obstacle && obstacle.ownerId !== attacker.ownerId) {
+      board = damageObstacle(board, state.turn, attacker.id, pos, 1, events);
+    }
+  }
 
-    // Attack event
+  // Artillery shells crater the ground at the point of impact
+  const shelled =
+    attacker.typeId === 'artillery' && getShelledTerrain(getTerrain(board, targetPos));
+  if (shelled) {
+    board = setTerrain(board, targetPos, shelled);
     events.push({
       turn: state.turn,
-      type: 'attack',
+      type: 'terrain_changed',
       pieceId: attacker.id,
-      targetId: targetPiece.id,
-      from: attackerPos,
-      to: pos,
-      damage,
+      to: targetPos,
+      terrain: shelled,
     });
+  }
 
-    // Hit event
+  // Aircraft pull out at the end of the run - pinned ones stay where they are
+  let position = attackerPos;
+  if (strafe?.exit && !hasStatusEffect(attacker, 'pinned')) {
+    board = movePiece(board, attacker.id, strafe.exit);
     events.push({
       turn: state.turn,
-      type: 'hit',
-      pieceId: targetPiece.id,
-      damage,
+      type: 'move',
+      pieceId: attacker.id,
+      from: attackerPos,
+      to: strafe.exit,
     });
+    recordMove(state.stats, attacker.id, getDistance(attackerPos, strafe.exit));
+    position = strafe.exit;
+  }
 
-    // Death event if HP reaches 0
-    if (newHp <= 0) {
-      events.push({
-        turn: state.turn,
-        type: 'death',
-        pieceId: targetPiece.id,
-      });
+  let newState: BattleState = { ...state, board, rng, bombs };
+
+  // Blitz: chance to attack again as a full extra attack (which can't chain into another)
+  const blitzChance = getAttackAgainChance(state, attacker);
+  if (!isExtraAttack && blitzChance > 0 && nextRandom(rng) < blitzChance) {
+    const currentTarget = board.pieces[target.id];
+    const extraTarget =
+      currentTarget.currentHp > 0 && isInAttackRange(position, targetPos, attacker.range)
+        ? { piece: currentTarget, position: targetPos }
+        : findEnemyInRange(board, attacker, position, attacker.range);
+
+    if (extraTarget) {
+      newState = processAttack(
+        newState,
+        attacker,
+        position,
+        extraTarget.piece,
+        extraTarget.position,
+        true
+      );
     }
   }
 
-  // Check for blitz trait (extra attack chance)
-  for (const trait of attacker.traits) {
-    if (trait.traitId === 'blitz') {
-      const chance = 0.3 * trait.level;
-      if (Math.random() < chance) {
-        // Recursive call for extra attack (be careful with infinite loops)
-        // For now, just add bonus damage to first target
-        const bonusDamage = Math.floor(
-          calculateDamage(attacker, target, attackerDef, defenderDef) * 0.5
-        );
-        if (targets.length > 0) {
-          const firstTarget = targets[0].piece;
-          const currentHp = board.pieces[firstTarget.id].currentHp;
-          board.pieces[firstTarget.id] = {
-            ...board.pieces[firstTarget.id],
-            currentHp: Math.max(0, currentHp - bonusDamage),
-          };
-          events.push({
-            turn: state.turn,
-            type: 'attack',
-            pieceId: attacker.id,
-            targetId: firstTarget.id,
-            damage: bonusDamage,
-          });
-        }
-      }
-    }
+  return newState;
+}
+
+// Medic restores HP to an ally - never past the ally's max HP
+function processHeal(
+  state: BattleState,
+  medic: Piece,
+  medicPos: Position,
+  patient: Piece,
+  patientPos: Position
+): BattleState {
+  if (!canHeal(medic, patient)) {
+    return state;
   }
 
-  return { ...state, board, events };
+  const amount =
+    MEDIC_BASE_HEAL +
+    getPieceModifiers(medic).healAmount +
+    getSynergySpecialValue(state.synergies, medic.ownerId, 'heal_buff');
+  const newHp = Math.min(patient.maxHp, patient.currentHp + amount);
+  const healing = newHp - patient.currentHp;
+  recordHealing(state.stats, medic.id, healing);
+
+  state.events.push({
+    turn: state.turn,
+    type: 'heal',
+    pieceId: medic.id,
+    targetId: patient.id,
+    from: medicPos,
+    to: patientPos,
+    healing,
+  });
+
+  return {
+    ...state,
+    board: {
+      ...state.board,
+      pieces: { ...state.board.pieces, [patient.id]: { ...patient, currentHp: newHp } },
+    },
+  };
 }
 
 // Process movement action
@@ -278,8 +585,8 @@ function processMovement(
   fromPos: Position,
   toPos: Position
 ): BattleState {
-  const events: BattleEvent[] = [...state.events];
-  const board = movePiece(state.board, piece.id, toPos);
+  const { events } = state;
+  let board = movePiece(state.board, piece.id, toPos);
 
   events.push({
     turn: state.turn,
@@ -288,8 +595,15 @@ function processMovement(
     from: fromPos,
     to: toPos,
   });
+  recordMove(state.stats, piece.id, getDistance(fromPos, toPos));
 
-  return { ...state, board, events };
+  // Enemy barbed wire gets trampled or crushed on the way through
+  const trampleDamage = getTrampleDamage(board, toPos, piece);
+  if (trampleDamage > 0) {
+    board = damageObstacle(board, state.turn, piece.id, toPos, trampleDamage, events);
+  }
+
+  return { ...state, board };
 }
 
 // Simulate one piece's turn
@@ -297,7 +611,7 @@ function simulatePieceTurn(
   state: BattleState,
   piece: Piece,
   piecePos: Position,
-  pathfinder: Pathfinder
+  distanceFields: TurnDistanceFields
 ): BattleState {
   const combatInfo = state.combatInfo.get(piece.id);
   if (!combatInfo || piece.currentHp <= 0) {
@@ -308,43 +622,50 @@ function simulatePieceTurn(
   if (combatInfo.state.type === 'dying') {
     if (state.turn >= (combatInfo.state.dieAtTurn || 0)) {
       // Remove piece from board
-      const newPositions = { ...state.board.piecePositions };
-      const posKey = positionToKey(piecePos);
-      delete newPositions[posKey];
-
-      return {
-        ...state,
-        board: {
-          ...state.board,
-          piecePositions: newPositions,
-        },
-      };
+      return { ...state, board: takePieceOffTile(state.board, piece.id) };
     }
     return state;
   }
 
   // Handle dead pieces (not already marked as dying)
   if (piece.currentHp <= 0) {
-    const newCombatInfo = new Map(state.combatInfo);
-    newCombatInfo.set(piece.id, {
+    state.combatInfo.set(piece.id, {
       ...combatInfo,
       state: { type: 'dying', dieAtTurn: state.turn + DYING_DURATION },
     });
-    return { ...state, combatInfo: newCombatInfo };
+    return state;
   }
 
-  // Engineer provides fortification instead of attacking
+  // Stunned pieces lose their turn
+  if (hasStatusEffect(piece, 'stun')) {
+    return state;
+  }
+
+  // Engineers build obstacles instead of attacking
   if (piece.typeId === 'engineer') {
-    return handleEngineerTurn(state, piece, piecePos);
+    return handleEngineerTurn(state, piece, piecePos, combatInfo);
+  }
+
+  const canMove =
+    state.turn >= combatInfo.canMoveAtTurn && piece.speed > 0 && !hasStatusEffect(piece, 'pinned');
+
+  // Nothing to do until an attack or a move comes off cooldown
+  if (state.turn < combatInfo.canAttackAtTurn && !canMove) {
+    return state;
   }
 
   // Find target
   let target: { piece: Piece; position: Position } | null = null;
+  let candidates: TargetCandidate[] | null = null;
 
   // If already attacking someone, continue attacking them if they're alive and in range
   if (combatInfo.state.type === 'attacking' && combatInfo.state.targetId) {
     const targetPiece = state.board.pieces[combatInfo.state.targetId];
-    if (targetPiece && targetPiece.currentHp > 0) {
+    if (
+      targetPiece &&
+      targetPiece.currentHp > 0 &&
+      (!isHealer(piece) || canHeal(piece, targetPiece))
+    ) {
       const targetPos = getPiecePosition(targetPiece.id, state.board);
       if (targetPos && isInAttackRange(piecePos, targetPos, piece.range)) {
         target = { piece: targetPiece, position: targetPos };
@@ -354,116 +675,326 @@ function simulatePieceTurn(
 
   // If no current target, find new one in range
   if (!target) {
-    target = findEnemyInRange(state.board, piece, piecePos, piece.range);
+    candidates = getTargetCandidates(state.board, piece, piecePos);
+    target = findEnemyInRange(state.board, piece, piecePos, piece.range, candidates);
   }
 
-  // If target in range and can attack, attack
+  // If target in range and can attack, attack (medics heal their target instead)
   if (target && state.turn >= combatInfo.canAttackAtTurn) {
-    const newCombatInfo = new Map(state.combatInfo);
-    newCombatInfo.set(piece.id, {
+    state.combatInfo.set(piece.id, {
       ...combatInfo,
       state: { type: 'attacking', targetId: target.piece.id },
-      canAttackAtTurn: state.turn + ATTACK_COOLDOWN,
+      canAttackAtTurn: state.turn + ATTACK_COOLDOWN - getAttackCooldownReduction(piece),
     });
 
-    let newState = { ...state, combatInfo: newCombatInfo };
-    newState = processAttack(newState, piece, piecePos, target.piece, target.position);
-    return newState;
+    return isHealer(piece)
+      ? processHeal(state, piece, piecePos, target.piece, target.position)
+      : processAttack(state, piece, piecePos, target.piece, target.position);
   }
 
-  // If no target in range, find nearest enemy and move towards them
-  const nearestEnemy = findNearestEnemy(state.board, piece, piecePos);
-
-  if (nearestEnemy && state.turn >= combatInfo.canMoveAtTurn && piece.speed > 0) {
+  // If no target in range, pick one by targeting policy and move towards them
+  const approachTarget = canMove
+    ? findTargetToApproach(
+        state.board,
+        piece,
+        piecePos,
+        candidates ?? getTargetCandidates(state.board, piece, piecePos)
+      )
+    : null;
+
+  if (approachTarget) {
     const nextPos = getNextPiecePosition(
-      pathfinder,
+      distanceFields,
       piecePos,
       piece.facingUp,
       piece.range,
-      nearestEnemy.position,
-      state.board
+      approachTarget.position,
+      state.board,
+      piece
     );
 
     if (nextPos) {
-      const newCombatInfo = new Map(state.combatInfo);
-      newCombatInfo.set(piece.id, {
+      state.combatInfo.set(piece.id, {
         ...combatInfo,
         canMoveAtTurn: state.turn + MOVE_COOLDOWN,
       });
 
-      let newState = { ...state, combatInfo: newCombatInfo };
-      newState = processMovement(newState, piece, piecePos, nextPos);
-      return newState;
+      return processMovement(state, piece, piecePos, nextPos);
     }
   }
 
   return state;
 }
 
-// Handle engineer's fortification ability
+// Knock HP off the obstacle on a tile, clearing it once destroyed
+function damageObstacle(
+  board: BoardState,
+  turn: number,
+  pieceId: string,
+  pos: Position,
+  amount: number,
+  events: BattleEvent[]
+): BoardState {
+  const obstacle = getObstacle(board, pos);
+  if (!obstacle) return board;
+
+  const hp = Math.max(0, obstacle.hp - amount);
+  events.push({ turn, type: 'obstacle_hit', pieceId, to: pos, damage: obstacle.hp - hp });
+  if (hp > 0) {
+    return setObstacle(board, pos, { ...obstacle, hp });
+  }
+
+  events.push({ turn, type: 'obstacle_destroyed', pieceId, to: pos });
+  return setObstacle(board, pos, null);
+}
+
+// Where the engineer builds next: sandbags under an adjacent friendly ground unit first
+// (diagonal ones too under a commander who fortifies diagonally), otherwise a tank trap
+// (barbed wire if the enemy has no vehicles) on the tile in front
+function chooseObstacleSite(
+  board: BoardState,
+  engineer: Piece,
+  engineerPos: Position
+): { pos: Position; type: ObstacleType } | null {
+  const fortifySites = getBattleCommander(board, engineer.ownerId)?.fortifiesDiagonally
+    ? [...getAdjacentPositions(engineerPos, board), ...getDiagonalPositions(engineerPos, board)]
+    : getAdjacentPositions(engineerPos, board);
+
+  for (const pos of fortifySites) {
+    const ally = getPieceAtPosition(pos, board);
+    if (
+      ally &&
+      ally.ownerId === engineer.ownerId &&
+      ally.currentHp > 0 &&
+      getMovementProfile(ally) !== 'air' &&
+      !getObstacle(board, pos)
+    ) {
+      return { pos, type: 'sandbags' };
+    }
+  }
+
+  const front = { x: engineerPos.x, y: engineerPos.y + (engineer.facingUp ? -1 : 1) };
+  if (
+    !isValidPosition(front, board) ||
+    isPositionOccupied(front, board) ||
+    getObstacle(board, front)
+  ) {
+    return null;
+  }
+
+  const enemyHasVehicles = getAlivePieces(board).some(
+    p => p.ownerId !== engineer.ownerId && isVehicle(p)
+  );
+  return { pos: front, type: enemyHasVehicles ? 'tank_trap' : 'barbed_wire' };
+}
+
+// Engineer builds an obstacle whenever its attack cooldown allows
 function handleEngineerTurn(
   state: BattleState,
   engineer: Piece,
-  engineerPos: Position
+  engineerPos: Position,
+  combatInfo: PieceCombatInfo
 ): BattleState {
-  // Find friendly units adjacent to engineer (not aircraft)
-  const board = { ...state.board, pieces: { ...state.board.pieces } };
-  const events: BattleEvent[] = [...state.events];
-
-  const directions = [
-    { x: 0, y: -1 },
-    { x: 1, y: 0 },
-    { x: 0, y: 1 },
-    { x: -1, y: 0 },
-  ];
-
-  for (const dir of directions) {
-    const adjPos = { x: engineerPos.x + dir.x, y: engineerPos.y + dir.y };
-    const adjPiece = getPieceAtPosition(adjPos, board);
-
-    if (adjPiece && adjPiece.ownerId === engineer.ownerId && adjPiece.typeId !== 'aircraft') {
-      // Calculate fortification strength based on engineer's star level
-      const fortificationArmor = engineer.level; // 1/2/3 based on stars
-      const fortificationDuration = 2 + engineer.level; // 3/4/5 turns
-
-      // Apply or refresh fortification
-      board.pieces[adjPiece.id] = {
-        ...board.pieces[adjPiece.id],
-        fortification: {
-          armor: fortificationArmor,
-          remainingTurns: fortificationDuration,
-        },
-      };
+  if (
+    state.turn < combatInfo.canAttackAtTurn ||
+    countObstaclesBuiltBy(state.board, engineer.id) >= MAX_OBSTACLES_PER_ENGINEER
+  ) {
+    return state;
+  }
 
+  const site = chooseObstacleSite(state.board, engineer, engineerPos);
+  if (!site) {
+    return state;
+  }
+
+  // Obstacle strength grows with the engineer's star upgrades
+  const modifiers = getPieceModifiers(engineer);
+  // Engineer synergy strengthens obstacles by its tier's value
+  const fortification = getSynergySpecialValue(
+    state.synergies,
+    engineer.ownerId,
+    'fortification_buff'
+  );
+  const armor = 1 + modifiers.fortificationArmor + fortification; // 1/2/3 based on stars
+  const duration =
+    OBSTACLE_BASE_DURATION + modifiers.fortificationDuration * OBSTACLE_DURATION_STEP;
+
+  const def = OBSTACLE_DEFINITIONS[site.type];
+  const obstacle: Obstacle = {
+    type: site.type,
+    ownerId: engineer.ownerId,
+    builderId: engineer.id,
+    hp: def.baseHp + fortification,
+    maxHp: def.baseHp + fortification,
+    armor: def.givesCover ? armor : 0,
+    expiresAtTurn: state.turn + duration,
+  };
+
+  state.combatInfo.set(engineer.id, {
+    ...combatInfo,
+    canAttackAtTurn: state.turn + ATTACK_COOLDOWN,
+  });
+
+  state.events.push({
+    turn: state.turn,
+    type: 'obstacle_built',
+    pieceId: engineer.id,
+    to: site.pos,
+    obstacle,
+  });
+
+  return {
+    ...state,
+    board: setObstacle(state.board, site.pos, obstacle),
+  };
+}
+
+// Tick status effects: burning damage, then count down and expire
+function updateStatusEffects(state: BattleState): BattleState {
+  // Pieces are only copied once something changes
+  let pieces: BoardState['pieces'] | null = null;
+  const { events } = state;
+
+  for (const piece of Object.values(state.board.pieces)) {
+    if (!piece.statusEffects || piece.statusEffects.length === 0 || piece.currentHp <= 0) {
+      continue;
+    }
+
+    let updated = piece;
+
+    // Burning deals its stacks as damage on every tick interval
+    const burning = getStatusEffect(updated, 'burning');
+    if (burning && state.turn % BURNING_TICK_INTERVAL === 0) {
+      const newHp = Math.max(0, updated.currentHp - burning.stacks);
+      recordDamage(state.stats, burning.sourceId, piece.id, updated.currentHp - newHp, newHp <= 0);
+      updated = { ...updated, currentHp: newHp };
       events.push({
         turn: state.turn,
-        type: 'fortification',
-        pieceId: engineer.id,
-        targetId: adjPiece.id,
+        type: 'hit',
+        pieceId: piece.id,
+        damage: burning.stacks,
+        status: burning,
       });
+      if (newHp <= 0) {
+        events.push({ turn: state.turn, type: 'death', pieceId: piece.id });
+      }
+    }
+
+    const ticked = tickStatusEffects(updated);
+    for (const effect of ticked.expired) {
+      events.push({
+        turn: state.turn,
+        type: 'status_expired',
+        pieceId: piece.id,
+        status: effect,
+      });
+    }
+
+    if (ticked.piece !== piece) {
+      pieces ??= { ...state.board.pieces };
+      pieces[piece.id] = ticked.piece;
     }
   }
 
-  return { ...state, board, events };
+  return pieces ? { ...state, board: { ...state.board, pieces } } : state;
 }
 
-// Decrement fortification turns
-function updateFortifications(state: BattleState): BattleState {
-  const board = { ...state.board, pieces: { ...state.board.pieces } };
+// Bombs whose delay has run out explode on their target area, even if the bomber has been shot
+// down since - dead pieces stay on the board with 0 HP, so the bomber is always there to look up
+function resolveBombs(state: BattleState): BattleState {
+  if (!state.bombs.some(bomb => bomb.landsAtTurn <= state.turn)) {
+    return state;
+  }
+
+  let board = { ...state.board, pieces: { ...state.board.pieces } };
+  const rng = { ...state.rng };
 
-  for (const piece of Object.values(board.pieces)) {
-    if (piece.fortification && piece.fortification.remainingTurns > 0) {
-      board.pieces[piece.id] = {
-        ...board.pieces[piece.id],
-        fortification: {
-          ...piece.fortification,
-          remainingTurns: piece.fortification.remainingTurns - 1,
-        },
-      };
+  for (const bomb of state.bombs) {
+    if (bomb.landsAtTurn > state.turn) continue;
+    const bomber = board.pieces[bomb.bomberId];
+
+    const blastTiles = getRadiusAoePositions(
+      bomb.target,
+      board,
+      getPieceModifiers(bomber).aoeRadius
+    );
+    const targets: { piece: Piece; pos: Position }[] = [];
+    for (const pos of blastTiles) {
+      const pieceAtPos = getPieceAtPosition(pos, board);
+      if (
+        pieceAtPos &&
+        pieceAtPos.ownerId !== bomber.ownerId &&
+        pieceAtPos.currentHp > 0 &&
+        canAttack(bomber, pieceAtPos)
+      ) {
+        targets.push({ piece: pieceAtPos, pos });
+      }
+    }
+
+    board = applyAttackHits(state, board, rng, bomber, bomb.target, targets);
+
+    // Bombs blow holes in the enemy's obstacles, like shells
+    for (const pos of blastTiles) {
+      const obstacle = getObstacle(board, pos);
+      if (obstacle && obstacle.ownerId !== bomber.ownerId) {
+        board = damageObstacle(board, state.turn, bomber.id, pos, 1, state.events);
+      }
     }
   }
 
-  return { ...state, board };
+  return {
+    ...state,
+    board,
+    rng,
+    bombs: state.bombs.filter(bomb => bomb.landsAtTurn > state.turn),
+  };
+}
+
+// Obstacles that have stood for their full duration crumble away
+function expireObstacles(state: BattleState): BattleState {
+  let board = state.board;
+
+  for (const [key, obstacle] of Object.entries(state.board.obstacles ?? {})) {
+    if (obstacle.expiresAtTurn > state.turn) continue;
+
+    const pos = keyToPosition(key);
+    board = setObstacle(board, pos, null);
+    state.events.push({
+      turn: state.turn,
+      type: 'obstacle_expired',
+      pieceId: obstacle.builderId,
+      to: pos,
+    });
+  }
+
+  return board === state.board ? state : { ...state, board };
+}
+
+// Paratroopers drop onto the free tile of the enemy back row closest to their own column
+function deployParatroopers(board: BoardState, events: BattleEvent[]): BoardState {
+  let deployed = board;
+
+  for (const piece of getAlivePieces(board)) {
+    const from = getPiecePosition(piece.id, deployed);
+    if (piece.typeId !== 'paratrooper' || !from) continue;
+
+    // Pieces facing up advance towards y = 0, so that is the enemy's back row
+    const y = piece.facingUp ? 0 : deployed.size.height - 1;
+    let landing: Position | null = null;
+    for (let x = 0; x < deployed.size.width; x++) {
+      const pos = { x, y };
+      if (isPositionOccupied(pos, deployed)) continue;
+      if (!landing || Math.abs(x - from.x) < Math.abs(landing.x - from.x)) {
+        landing = pos;
+      }
+    }
+    if (!landing) continue;
+
+    deployed = movePiece(deployed, piece.id, landing);
+    events.push({ turn: 0, type: 'move', pieceId: piece.id, from, to: landing });
+  }
+
+  return deployed;
 }
 
 // Check if battle is over
@@ -480,11 +1011,17 @@ function isBattleOver(board: BoardState): boolean {
 export function simulateTurn(state: BattleState): BattleState {
   if (state.isFinished) return state;
 
-  const pathfinder = new Pathfinder(state.board.size);
+  const distanceFields = new TurnDistanceFields();
   let newState = { ...state, turn: state.turn + 1 };
 
-  // Update fortifications
-  newState = updateFortifications(newState);
+  // Update status effects
+  newState = updateStatusEffects(newState);
+
+  // Explode bombs that have finished falling
+  newState = resolveBombs(newState);
+
+  // Clear away obstacles that have stood their time
+  newState = expireObstacles(newState);
 
   // Get all alive pieces sorted by speed (faster goes first)
   const alivePieces = getAlivePieces(newState.board).sort((a, b) => b.speed - a.speed);
@@ -493,7 +1030,7 @@ export function simulateTurn(state: BattleState): BattleState {
   for (const piece of alivePieces) {
     const pos = getPiecePosition(piece.id, newState.board);
     if (pos && piece.currentHp > 0) {
-      newState = simulatePieceTurn(newState, newState.board.pieces[piece.id], pos, pathfinder);
+      newState = simulatePieceTurn(newState, newState.board.pieces[piece.id], pos, distanceFields);
     }
   }
 
@@ -505,20 +1042,36 @@ export function simulateTurn(state: BattleState): BattleState {
   return newState;
 }
 
-// Initialize battle state
-export function initializeBattle(board: BoardState): BattleState {
+// Initialize battle state - all randomness in the battle (terrain included) comes from the seed
+export function initializeBattle(board: BoardState, seed: number): BattleState {
+  const rng = createRng(seed);
+  const synergies = calculateBattleSynergies(board);
+  const events: BattleEvent[] = [];
+  const battleBoard = deployParatroopers(
+    applyBattleSynergyBonuses(applyBattleTerrain(board, seed), synergies),
+    events
+  );
   return {
-    board,
-    combatInfo: initializeCombatInfo(board),
-    events: [],
+    board: battleBoard,
+    combatInfo: initializeCombatInfo(battleBoard),
+    events,
+    stats: initializeBattleStats(battleBoard),
+    bombs: [],
     turn: 0,
     isFinished: false,
+    seed: rng.seed,
+    rng,
+    synergies,
   };
 }
 
-// Run complete battle simulation
-export function runBattle(board: BoardState, maxTurns: number = 200): BattleState {
-  let state = initializeBattle(board);
+// Run complete battle simulation (deterministic for a given board and seed)
+export function runBattle(
+  board: BoardState,
+  seed: number,
+  maxTurns: number = MAX_BATTLE_TURNS
+): BattleState {
+  let state = initializeBattle(board, seed);
 
   while (!state.isFinished && state.turn < maxTurns) {
     state = simulateTurn(state);
@@ -527,56 +1080,68 @@ export function runBattle(board: BoardState, maxTurns: number = 200): BattleStat
   return state;
 }
 
-// Calculate battle result
+// Whether the battle ended in regulation or overtime, or ran out of turns undecided
+function getBattleDecision(state: BattleState): BattleDecision {
+  if (!state.isFinished) return 'timeout';
+  return isOvertime(state.turn) ? 'overtime' : 'regulation';
+}
+
+// Calculate battle result - the round number scales the damage the loser takes
 export function calculateBattleResult(
   state: BattleState,
   player1Id: string,
-  player2Id: string
+  player2Id: string,
+  round: number = 1
 ): BattleResult {
+  const decidedBy = getBattleDecision(state);
+  const pieceStats = rankPieceStats(state.stats);
+
   const player1Survivors = getAlivePiecesByOwner(state.board, player1Id);
   const player2Survivors = getAlivePiecesByOwner(state.board, player2Id);
 
   const player1SurvivorCount = player1Survivors.length;
   const player2SurvivorCount = player2Survivors.length;
 
-  // Calculate damage based on surviving units' total attack
-  const player1TotalAttack = player1Survivors.reduce(
-    (sum, p) => sum + Math.floor((p.attackMin + p.attackMax) / 2),
-    0
-  );
-  const player2TotalAttack = player2Survivors.reduce(
-    (sum, p) => sum + Math.floor((p.attackMin + p.attackMax) / 2),
-    0
-  );
-
   // Determine winner
   if (player1SurvivorCount > 0 && player2SurvivorCount === 0) {
+    const damage = calculateLoserDamage(player1Survivors, round);
     return {
       winnerId: player1Id,
       loserId: player2Id,
       winnerSurvivors: player1SurvivorCount,
       loserSurvivors: 0,
-      damageDealt: player1TotalAttack,
+      damageDealt: damage.total,
+      damageBreakdown: damage.breakdown,
       isDraw: false,
+      decidedBy,
+      pieceStats,
     };
   } else if (player2SurvivorCount > 0 && player1SurvivorCount === 0) {
+    const damage = calculateLoserDamage(player2Survivors, round);
     return {
       winnerId: player2Id,
       loserId: player1Id,
       winnerSurvivors: player2SurvivorCount,
       loserSurvivors: 0,
-      damageDealt: player2TotalAttack,
+      damageDealt: damage.total,
+      damageBreakdown: damage.breakdown,
       isDraw: false,
+      decidedBy,
+      pieceStats,
     };
   } else {
-    // Draw - both deal damage based on survivors
+    // Draw - both players take the draw damage
+    const damage = calculateDrawDamage(round);
     return {
       winnerId: null,
       loserId: null,
       winnerSurvivors: Math.max(player1SurvivorCount, player2SurvivorCount),
       loserSurvivors: Math.min(player1SurvivorCount, player2SurvivorCount),
-      damageDealt: 5, // Fixed draw damage
+      damageDealt: damage.total,
+      damageBreakdown: damage.breakdown,
       isDraw: true,
+      decidedBy,
+      pieceStats,
     };
   }
 }
@@ -0,0 +1,86 @@
+import { BoardState, PieceBattleStats } from '../types';
+
+// =============================================
+// Battle Statistics
+// Per-piece running totals gathered while a battle is simulated, and the
+// MVP ranking shown after it. Totals are updated in place, the same way
+// battle events are appended.
+// =============================================
+
+export type BattleStats = Record<string, PieceBattleStats>; // pieceId -> stats
+
+// A kill is worth as much as this much damage in the MVP score
+const MVP_KILL_SCORE = 3;
+
+// Zeroed stats for every piece that starts the battle
+export function initializeBattleStats(board: BoardState): BattleStats {
+  const stats: BattleStats = {};
+  for (const piece of Object.values(board.pieces)) {
+    stats[piece.id] = {
+      pieceId: piece.id,
+      ownerId: piece.ownerId,
+      typeId: piece.typeId,
+      level: piece.level,
+      damageDealt: 0,
+      damageTaken: 0,
+      kills: 0,
+      damageBlocked: 0,
+      healingDone: 0,
+      tilesMoved: 0,
+    };
+  }
+  return stats;
+}
+
+// Record HP taken off a piece - the attacker may be unknown (or gone) for damage over time
+export function recordDamage(
+  stats: BattleStats,
+  attackerId: string | undefined,
+  defenderId: string,
+  damage: number,
+  killed: boolean
+): void {
+  const attacker = attackerId ? stats[attackerId] : undefined;
+  if (attacker) {
+    attacker.damageDealt += damage;
+    if (killed) attacker.kills++;
+  }
+
+  const defender = stats[defenderId];
+  if (defender) {
+    defender.damageTaken += damage;
+  }
+}
+
+export function recordBlocked(stats: BattleStats, builderId: string, damage: number): void {
+  const builder = stats[builderId];
+  if (builder) {
+    builder.damageBlocked += damage;
+  }
+}
+
+export function recordHealing(stats: BattleStats, medicId: string, healing: number): void {
+  const medic = stats[medicId];
+  if (medic) {
+    medic.healingDone += healing;
+  }
+}
+
+export function recordMove(stats: BattleStats, pieceId: string, tiles: number): void {
+  const piece = stats[pieceId];
+  if (piece) {
+    piece.tilesMoved += tiles;
+  }
+}
+
+// How much a piece carried the fight: damage dealt, blocked and healed, plus a bonus per kill
+export function getMvpScore(stats: PieceBattleStats): number {
+  return stats.damageDealt + stats.damageBlocked + stats.healingDone + stats.kills * MVP_KILL_SCORE;
+}
+
+// Stats ordered best performance first - ties keep the pieces' board order
+export function rankPieceStats(stats: BattleStats): PieceBattleStats[] {
+  return Object.values(stats)
+    .map(s => ({ ...s }))
+    .sort((a, b) => getMvpScore(b) - getMvpScore(a));
+}
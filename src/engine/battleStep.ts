@@ -0,0 +1,237 @@
+import { BoardState, BattleEvent, BattleResult, Piece } from '../types';
+import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS, FACTION_DEFINITIONS } from '../types/units';
+import {
+  BattleState,
+  MAX_BATTLE_TURNS,
+  initializeBattle,
+  simulateTurn,
+  calculateBattleResult,
+} from './battle';
+import {
+  addPieceToBoard,
+  createBattleBoardFromTwo,
+  createEmptyBoard,
+  isValidPosition,
+  positionToKey,
+} from './board';
+import { calculatePieceStats } from './upgrades';
+import { applyTraitStatEffects } from './traits';
+import { applyItemStatEffects, ITEM_DEFINITIONS, MAX_ITEMS_PER_PIECE } from './items';
+import { AUGMENT_DEFINITIONS } from './augments';
+import { COMMANDER_DEFINITIONS } from './commanders';
+
+// =============================================
+// Stepped Battle Runner
+// Shared by the run-battle edge function and the client engine:
+// stepping a battle to the end gives exactly the same result as runBattle.
+// No battle state travels between calls - each step replays the battle from
+// the two player boards and the seed, so the server never trusts a mid-battle
+// state sent by a client and the request stays the same size all battle long.
+// The server keeps no match state, so the armies themselves (units, star
+// levels, traits, items, augments, commander) are taken from the request;
+// everything derived from them (stats, terrain, obstacles) is rebuilt here.
+// =============================================
+
+// Engine turns simulated per edge function call
+export const TURNS_PER_STEP = 10;
+
+// Number of steps needed to reach MAX_BATTLE_TURNS
+export const MAX_BATTLE_STEPS = Math.ceil(MAX_BATTLE_TURNS / TURNS_PER_STEP);
+
+// Highest star level a piece can merge up to
+const MAX_STAR_LEVEL = 3;
+
+export interface BattleStepRequest {
+  matchId: string;
+  turn: number; // Step number, starting at 1 - the step's events are the ones returned
+  player1Id: string;
+  player2Id: string;
+  round?: number; // Game round the battle is fought in, scales player damage (default 1)
+  // Both players' own boards as submitted for the battle, sent unchanged with every step
+  player1Board: BoardState;
+  player2Board: BoardState;
+  seed: number;
+}
+
+export interface BattleStepResponse {
+  turn: number;
+  updatedBoard: BoardState;
+  events: BattleEvent[]; // Only the events produced during this step
+  isFinished: boolean;
+  result: BattleResult | null;
+}
+
+// Validate a step request, returning an error message if it cannot be run
+export function validateBattleStepRequest(request: Partial<BattleStepRequest>): string | null {
+  const { matchId, turn, player1Id, player2Id, player1Board, player2Board, seed } = request;
+
+  if (!matchId || turn === undefined || !player1Id || !player2Id) {
+    return 'Missing required fields: matchId, turn, player1Id, player2Id';
+  }
+
+  if (!player1Board || !player2Board || typeof seed !== 'number') {
+    return 'Missing required fields: player1Board, player2Board, seed';
+  }
+
+  if (!Number.isInteger(turn) || turn < 1 || turn > MAX_BATTLE_STEPS) {
+    return `turn must be a step number from 1 to ${MAX_BATTLE_STEPS}`;
+  }
+
+  return (
+    validatePlayerBoard(player1Board, 'player1Board') ??
+    validatePlayerBoard(player2Board, 'player2Board')
+  );
+}
+
+// Check the army on a submitted player board, returning an error message if it can't be fought
+function validatePlayerBoard(board: BoardState, name: string): string | null {
+  if (!board.pieces || typeof board.pieces !== 'object') {
+    return `${name} has no pieces`;
+  }
+
+  const tiles = new Set<string>();
+  for (const piece of Object.values(board.pieces)) {
+    if (!piece || typeof piece.id !== 'string') return `${name} has a piece without an id`;
+    if (!piece.position) continue; // Bench pieces don't fight
+
+    const { id, typeId, level, position } = piece;
+    if (!Object.hasOwn(UNIT_DEFINITIONS, typeId)) return `${name}: ${id} is an unknown unit`;
+    if (!Number.isInteger(level) || level < 1 || level > MAX_STAR_LEVEL) {
+      return `${name}: ${id} has star level ${level}`;
+    }
+    if (
+      !Number.isInteger(position.x) ||
+      !Number.isInteger(position.y) ||
+      !isValidPosition(position, createEmptyBoard())
+    ) {
+      return `${name}: ${id} is off the board`;
+    }
+
+    const key = positionToKey(position);
+    if (tiles.has(key)) return `${name}: two pieces on ${key}`;
+    tiles.add(key);
+
+    const traitsValid =
+      Array.isArray(piece.traits) &&
+      piece.traits.every(
+        trait =>
+          Object.hasOwn(TRAIT_DEFINITIONS, trait.traitId) &&
+          Number.isInteger(trait.level) &&
+          trait.level >= 1 &&
+          trait.level <= level
+      );
+    if (!traitsValid) return `${name}: ${id} has invalid traits`;
+
+    const items = piece.items ?? [];
+    if (
+      !Array.isArray(items) ||
+      items.length > MAX_ITEMS_PER_PIECE ||
+      !items.every(itemId => Object.hasOwn(ITEM_DEFINITIONS, itemId))
+    ) {
+      return `${name}: ${id} has invalid items`;
+    }
+
+    if (piece.faction !== undefined && !Object.hasOwn(FACTION_DEFINITIONS, piece.faction)) {
+      return `${name}: ${id} has an unknown faction`;
+    }
+  }
+
+  const augments = board.augments ?? [];
+  if (
+    !Array.isArray(augments) ||
+    new Set(augments).size !== augments.length ||
+    !augments.every(augmentId => Object.hasOwn(AUGMENT_DEFINITIONS, augmentId))
+  ) {
+    return `${name} has invalid augments`;
+  }
+
+  if (board.commanderId != null && !Object.hasOwn(COMMANDER_DEFINITIONS, board.commanderId)) {
+    return `${name} has an unknown commander`;
+  }
+
+  return null;
+}
+
+// A validated player board rebuilt from its army alone: stats come from each piece's unit type,
+// star level, traits and items, and nothing else on the submitted board (terrain, obstacles,
+// modifiers, status effects, damage) is kept
+export function normalizePlayerBoard(board: BoardState): BoardState {
+  let normalized: BoardState = {
+    ...createEmptyBoard(),
+    ...(board.commanderId && { commanderId: board.commanderId }),
+    ...(board.augments && { augments: [...board.augments] }),
+  };
+
+  for (const piece of Object.values(board.pieces)) {
+    if (!piece.position) continue;
+
+    const traits = piece.traits.map(({ traitId, level }) => ({ traitId, level }));
+    const items = [...(piece.items ?? [])];
+    const stats = applyItemStatEffects(
+      applyTraitStatEffects(calculatePieceStats(piece.typeId, piece.level), traits),
+      items
+    );
+    const rebuilt: Piece = {
+      id: piece.id,
+      typeId: piece.typeId,
+      ownerId: piece.ownerId,
+      matchId: piece.matchId,
+      level: piece.level,
+      currentHp: stats.maxHp,
+      ...stats,
+      position: null,
+      isOnBoard: false,
+      benchSlot: null,
+      status: 'idle',
+      facingUp: true,
+      traits,
+      ...(piece.faction && { faction: piece.faction }),
+      ...(items.length > 0 && { items }),
+    };
+    normalized = addPieceToBoard(normalized, rebuilt, {
+      x: piece.position.x,
+      y: piece.position.y,
+    });
+  }
+
+  return normalized;
+}
+
+// Simulate until the battle ends or reaches the given turn
+function simulateUntil(state: BattleState, turn: number): BattleState {
+  while (!state.isFinished && state.turn < turn) {
+    state = simulateTurn(state);
+  }
+  return state;
+}
+
+// Run one step of a battle, replaying the steps before it to get there
+export function runBattleStep(request: BattleStepRequest): BattleStepResponse {
+  const stepStart = (request.turn - 1) * TURNS_PER_STEP;
+  const stepEnd = Math.min(stepStart + TURNS_PER_STEP, MAX_BATTLE_TURNS);
+
+  const battleBoard = createBattleBoardFromTwo(
+    normalizePlayerBoard(request.player1Board),
+    request.player1Id,
+    normalizePlayerBoard(request.player2Board),
+    request.player2Id
+  );
+
+  // A battle's setup events (paratrooper drops) go out with its first step
+  let state = simulateUntil(initializeBattle(battleBoard, request.seed), stepStart);
+  const eventCountBefore = request.turn === 1 ? 0 : state.events.length;
+  state = simulateUntil(state, stepEnd);
+
+  // Same cutoff as runBattle: a battle still running at MAX_BATTLE_TURNS is over
+  const isFinished = state.isFinished || state.turn >= MAX_BATTLE_TURNS;
+
+  return {
+    turn: request.turn,
+    updatedBoard: state.board,
+    events: state.events.slice(eventCountBefore),
+    isFinished,
+    result: isFinished
+      ? calculateBattleResult(state, request.player1Id, request.player2Id, request.round)
+      : null,
+  };
+}
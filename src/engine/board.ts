@@ -1,4 +1,5 @@
-import { BoardState, Piece, Position, BOARD_WIDTH, BOARD_HEIGHT } from '../types';
+import { BoardState, CommanderId, Piece, Position, BOARD_WIDTH, BOARD_HEIGHT } from '../types';
+import { applyAugmentStatEffects } from './augments';
 
 // =============================================
 // Board Management
@@ -12,11 +13,31 @@ export function createEmptyBoard(): BoardState {
   };
 }
 
+// "x,y" keys of every tile of boards up to this size, made once so the hot lookups don't build
+// and parse a new string each time
+const KEYED_SIZE = 16;
+const TILE_KEYS: string[] = [];
+const KEY_TILES = new Map<string, Position>();
+for (let y = 0; y < KEYED_SIZE; y++) {
+  for (let x = 0; x < KEYED_SIZE; x++) {
+    const key = `${x},${y}`;
+    TILE_KEYS.push(key);
+    KEY_TILES.set(key, { x, y });
+  }
+}
+
 export function positionToKey(pos: Position): string {
-  return `${pos.x},${pos.y}`;
+  const { x, y } = pos;
+  if (x >= 0 && x < KEYED_SIZE && y >= 0 && y < KEYED_SIZE && (x | 0) === x && (y | 0) === y) {
+    return TILE_KEYS[y * KEYED_SIZE + x];
+  }
+  return `${x},${y}`;
 }
 
 export function keyToPosition(key: string): Position {
+  const tile = KEY_TILES.get(key);
+  if (tile) return { x: tile.x, y: tile.y };
+
   const [x, y] = key.split(',').map(Number);
   return { x, y };
 }
@@ -34,13 +55,11 @@ export function getPieceAtPosition(pos: Position, board: BoardState): Piece | nu
   return pieceId ? board.pieces[pieceId] : null;
 }
 
+// piecePositions (tile -> piece) and each piece's position (piece -> tile) form a two-way
+// index. Every function here that puts a piece on, moves it or takes it off a tile updates
+// both sides, so either lookup is a single read.
 export function getPiecePosition(pieceId: string, board: BoardState): Position | null {
-  for (const [key, id] of Object.entries(board.piecePositions)) {
-    if (id === pieceId) {
-      return keyToPosition(key);
-    }
-  }
-  return null;
+  return board.pieces[pieceId]?.position ?? null;
 }
 
 export function addPieceToBoard(board: BoardState, piece: Piece, pos: Position): BoardState {
@@ -80,6 +99,24 @@ export function removePieceFromBoard(board: BoardState, pieceId: string): BoardS
   };
 }
 
+// Clear the piece's tile but keep the piece - dead pieces still count towards the battle result
+export function takePieceOffTile(board: BoardState, pieceId: string): BoardState {
+  const pos = getPiecePosition(pieceId, board);
+  if (!pos) return board;
+
+  const newPositions = { ...board.piecePositions };
+  delete newPositions[positionToKey(pos)];
+
+  return {
+    ...board,
+    pieces: {
+      ...board.pieces,
+      [pieceId]: { ...board.pieces[pieceId], position: null },
+    },
+    piecePositions: newPositions,
+  };
+}
+
 export function movePiece(board: BoardState, pieceId: string, newPos: Position): BoardState {
   const oldPos = getPiecePosition(pieceId, board);
   if (!oldPos || !isValidPosition(newPos, board)) return board;
@@ -143,6 +180,8 @@ export function cloneBoard(board: BoardState): BoardState {
     ),
     piecePositions: { ...board.piecePositions },
     size: { ...board.size },
+    ...(board.terrain && { terrain: { ...board.terrain } }),
+    ...(board.obstacles && { obstacles: { ...board.obstacles } }),
   };
 }
 
@@ -226,39 +265,53 @@ export function getAdjacentPositions(pos: Position, board: BoardState): Position
     .filter(p => isValidPosition(p, board));
 }
 
-// Get radius AOE positions (for artillery) - target + adjacent 4 positions
-export function getRadiusAoePositions(center: Position, board: BoardState): Position[] {
+export function getDiagonalPositions(pos: Position, board: BoardState): Position[] {
+  const directions = [
+    { x: -1, y: -1 }, // up-left
+    { x: 1, y: -1 }, // up-right
+    { x: 1, y: 1 }, // down-right
+    { x: -1, y: 1 }, // down-left
+  ];
+
+  return directions
+    .map(d => ({ x: pos.x + d.x, y: pos.y + d.y }))
+    .filter(p => isValidPosition(p, board));
+}
+
+// Get radius AOE positions (for artillery) - target + adjacent 4 positions,
+// each extra radius step reaches one tile further
+export function getRadiusAoePositions(
+  center: Position,
+  board: BoardState,
+  extraRadius: number = 0
+): Position[] {
+  if (extraRadius > 0) {
+    return getPositionsInRange(center, 1 + extraRadius, board);
+  }
   const positions = [center];
   const adjacent = getAdjacentPositions(center, board);
   return [...positions, ...adjacent];
 }
 
-// Get line sweep positions (for aircraft)
-export function getLineSweepPositions(
+// Get cone positions (for flamethrowers) - the target and the three tiles fanning out behind
+// it, pointing along whichever axis the target is further away on (the vertical axis on a tie)
+export function getConePositions(
   attackerPos: Position,
-  direction: 'horizontal' | 'vertical',
-  length: number,
+  targetPos: Position,
   board: BoardState
 ): Position[] {
-  const positions: Position[] = [];
-
-  if (direction === 'horizontal') {
-    for (let x = attackerPos.x - length; x <= attackerPos.x + length; x++) {
-      const pos = { x, y: attackerPos.y };
-      if (isValidPosition(pos, board) && x !== attackerPos.x) {
-        positions.push(pos);
-      }
-    }
-  } else {
-    for (let y = attackerPos.y - length; y <= attackerPos.y + length; y++) {
-      const pos = { x: attackerPos.x, y };
-      if (isValidPosition(pos, board) && y !== attackerPos.y) {
-        positions.push(pos);
-      }
-    }
-  }
-
-  return positions;
+  const dx = targetPos.x - attackerPos.x;
+  const dy = targetPos.y - attackerPos.y;
+  const direction =
+    Math.abs(dy) >= Math.abs(dx) ? { x: 0, y: Math.sign(dy) } : { x: Math.sign(dx), y: 0 };
+  const behind = { x: targetPos.x + direction.x, y: targetPos.y + direction.y };
+
+  return [
+    targetPos,
+    behind,
+    { x: behind.x + direction.y, y: behind.y + direction.x },
+    { x: behind.x - direction.y, y: behind.y - direction.x },
+  ].filter(p => isValidPosition(p, board));
 }
 
 // Create battle board by combining two players' boards
@@ -299,3 +352,63 @@ export function createBattleBoard(
 
   return battleBoard;
 }
+
+// Create the 6x6 battle board from two player boards (player 2 mirrored onto the top half)
+export function createBattleBoardFromTwo(
+  player1Board: BoardState,
+  player1Id: string,
+  player2Board: BoardState,
+  player2Id: string
+): BoardState {
+  const battleBoard: BoardState = {
+    pieces: {},
+    piecePositions: {},
+    size: { width: 6, height: 6 },
+  };
+
+  // Add player 1's pieces (keep positions, facing up towards player 2)
+  Object.values(player1Board.pieces).forEach(piece => {
+    if (piece.position && (piece.currentHp || 100) > 0) {
+      const newPiece = applyAugmentStatEffects(
+        { ...piece, ownerId: player1Id, currentHp: piece.currentHp || 100, facingUp: true },
+        player1Board.augments ?? []
+      );
+      battleBoard.pieces[piece.id] = newPiece;
+      battleBoard.piecePositions[`${piece.position.x},${piece.position.y}`] = piece.id;
+    }
+  });
+
+  // Add player 2's pieces (mirror positions, facing down towards player 1)
+  Object.values(player2Board.pieces).forEach(piece => {
+    if (piece.position && (piece.currentHp || 100) > 0) {
+      const mirroredPos = {
+        x: 5 - piece.position.x,
+        y: 5 - piece.position.y,
+      };
+      const newId = `p2-${piece.id}`;
+      const newPiece = applyAugmentStatEffects(
+        {
+          ...piece,
+          id: newId,
+          ownerId: player2Id,
+          position: mirroredPos,
+          currentHp: piece.currentHp || 100,
+          facingUp: false,
+        },
+        player2Board.augments ?? []
+      );
+      battleBoard.pieces[newId] = newPiece;
+      battleBoard.piecePositions[`${mirroredPos.x},${mirroredPos.y}`] = newId;
+    }
+  });
+
+  // Commanders whose passives apply in battle, keyed by owner
+  const commanders: Record<string, CommanderId> = {};
+  if (player1Board.commanderId) commanders[player1Id] = player1Board.commanderId;
+  if (player2Board.commanderId) commanders[player2Id] = player2Board.commanderId;
+  if (Object.keys(commanders).length > 0) {
+    battleBoard.commanders = commanders;
+  }
+
+  return battleBoard;
+}
@@ -1,4 +1,5 @@
 import {
+  AugmentId,
   Piece,
   Player,
   ShopCard,
@@ -6,9 +7,9 @@ import {
   Position,
   BoardState,
   UnitTypeId,
+  SynergyTrait,
   BOARD_WIDTH,
   BOARD_HEIGHT,
-  BENCH_SIZE,
 } from '../types';
 import { UNIT_DEFINITIONS } from '../types/units';
 import {
@@ -17,6 +18,7 @@ import {
   findMergeCandidates,
   canMerge,
   mergePieces,
+  drawCardOfCost,
 } from './shop';
 import {
   addPieceToBoard,
@@ -24,19 +26,21 @@ import {
   getEmptyPositions,
   removePieceFromBoard,
 } from './board';
-import { getSynergyProgress } from './synergy';
+import { getSynergyProgress, getSynergyTraits } from './synergy';
 import { getUnitCap, calculateSellPrice } from './economy';
+import { AUGMENT_DEFINITIONS, getBenchSize } from './augments';
 
 // =============================================
 // Bot AI Decision System
 // =============================================
 
 export interface BotAction {
-  type: 'BUY' | 'DEPLOY' | 'UNDEPLOY' | 'MOVE' | 'SELL' | 'REFRESH' | 'READY' | 'MERGE';
+  type: 'BUY' | 'DEPLOY' | 'UNDEPLOY' | 'MOVE' | 'SELL' | 'REFRESH' | 'READY' | 'MERGE' | 'AUGMENT';
   pieceId?: string;
   cardIndex?: number;
   position?: Position;
   mergeIds?: string[];
+  augmentId?: AugmentId;
 }
 
 export interface BotState {
@@ -46,6 +50,7 @@ export interface BotState {
   shop: ShopState;
   cardPool: Map<UnitTypeId, number>;
   allPlayers: Player[];
+  augmentOffer: AugmentId[]; // Augments to pick from this round, if any
 }
 
 export interface BotDecision {
@@ -63,6 +68,19 @@ const WEIGHTS = {
   backlineBonus: 0.3,
 };
 
+// Augment a bot picks: stat bonuses by how many of its units they reach, the rest by a fixed value
+export function pickBotAugment(offer: AugmentId[], pieces: Piece[]): AugmentId {
+  const score = (id: AugmentId) => {
+    const def = AUGMENT_DEFINITIONS[id];
+    if (def.statBonus) {
+      const typeIds = def.statBonus.typeIds;
+      return pieces.filter(p => typeIds.includes(p.typeId)).length;
+    }
+    return def.roundIncomeBonus + def.benchSlotBonus * 0.5 + (def.freeUnitCost ?? 0);
+  };
+  return offer.reduce((best, id) => (score(id) > score(best) ? id : best));
+}
+
 // =============================================
 // Bot Brain - Decision Making
 // =============================================
@@ -79,6 +97,13 @@ export class BotBrain {
     const actions: BotAction[] = [];
     const reasoning: string[] = [];
 
+    // Phase 0: Pick an augment on augment rounds
+    if (this.state.augmentOffer.length > 0) {
+      const augmentId = pickBotAugment(this.state.augmentOffer, this.getOwnPieces());
+      actions.push({ type: 'AUGMENT', augmentId });
+      reasoning.push(`Picked ${AUGMENT_DEFINITIONS[augmentId].name}`);
+    }
+
     // Phase 1: Try to merge existing pieces
     const mergeActions = this.tryMerge();
     if (mergeActions.length > 0) {
@@ -123,13 +148,18 @@ export class BotBrain {
     };
   }
 
-  // Try to merge pieces
-  private tryMerge(): BotAction[] {
-    const actions: BotAction[] = [];
-    const allPieces = [
+  // Own pieces on the board and bench
+  private getOwnPieces(): Piece[] {
+    return [
       ...Object.values(this.state.board.pieces).filter(p => p.ownerId === this.state.player.id),
       ...this.state.bench,
     ];
+  }
+
+  // Try to merge pieces
+  private tryMerge(): BotAction[] {
+    const actions: BotAction[] = [];
+    const allPieces = this.getOwnPieces();
 
     const candidates = findMergeCandidates(allPieces);
 
@@ -150,9 +180,10 @@ export class BotBrain {
   private decideBuys(): BotAction[] {
     const actions: BotAction[] = [];
     const { shop, bench } = this.state;
+    const benchSize = getBenchSize(this.state.player.augments);
 
     // Don't buy if bench is full
-    if (bench.length >= BENCH_SIZE) return actions;
+    if (bench.length >= benchSize) return actions;
 
     // Calculate how much we can spend
     const maxSpend = this.calculateMaxSpend();
@@ -171,7 +202,7 @@ export class BotBrain {
     // Buy best cards within budget
     for (const { card, index, value } of cardValues) {
       if (spent + card.cost > maxSpend) continue;
-      if (bench.length + actions.length >= BENCH_SIZE) break;
+      if (bench.length + actions.length >= benchSize) break;
 
       // Higher value threshold for expensive units
       const threshold = card.cost * 0.8;
@@ -225,7 +256,9 @@ export class BotBrain {
     }
 
     // Bonus for synergy contribution
-    const synergyBonus = this.evaluateSynergyContribution(def.traits);
+    const synergyBonus = this.evaluateSynergyContribution(
+      getSynergyTraits({ typeId: card.typeId, faction: card.faction })
+    );
     value += synergyBonus * WEIGHTS.synergyBonus;
 
     // Bonus for random traits
@@ -240,6 +273,8 @@ export class BotBrain {
       value *= 1.1; // Artillery good for damage
     } else if (card.typeId === 'engineer') {
       value *= 0.8; // Engineers less valuable without strategy
+    } else if (card.typeId === 'medic') {
+      value *= 0.9; // Medics only pay off behind a frontline
     }
 
     return value;
@@ -256,7 +291,7 @@ export class BotBrain {
   }
 
   // Evaluate synergy contribution
-  private evaluateSynergyContribution(traits: string[]): number {
+  private evaluateSynergyContribution(traits: SynergyTrait[]): number {
     const currentSynergies = getSynergyProgress([
       ...Object.values(this.state.board.pieces).filter(p => p.ownerId === this.state.player.id),
       ...this.state.bench,
@@ -265,11 +300,11 @@ export class BotBrain {
     let bonus = 0;
 
     for (const trait of traits) {
-      const synergy = currentSynergies.find(s => s.synergyId === trait);
+      const synergy = currentSynergies.find(s => s.traitType === trait);
       if (synergy) {
-        // Close to activation threshold
-        if (synergy.currentCount + 1 >= synergy.triggerCount) {
-          bonus += 2; // Big bonus for activating synergy
+        // Close to the next breakpoint
+        if (synergy.nextCount !== null && synergy.currentCount + 1 >= synergy.nextCount) {
+          bonus += 2; // Big bonus for reaching a new tier
         } else {
           bonus += 0.5; // Small bonus for progress
         }
@@ -395,7 +430,7 @@ export class BotBrain {
     if (player.money < shop.refreshCost) return false;
 
     // Don't refresh if bench is full
-    if (bench.length >= BENCH_SIZE) return false;
+    if (bench.length >= getBenchSize(player.augments)) return false;
 
     // Calculate remaining card value
     const remainingValue = shop.cards
@@ -421,7 +456,7 @@ export function executeBotAction(action: BotAction, state: BotState): BotState {
       const card = state.shop.cards[action.cardIndex];
       if (!card || card.purchased) break;
       if (state.player.money < card.cost) break;
-      if (state.bench.length >= BENCH_SIZE) break;
+      if (state.bench.length >= getBenchSize(state.player.augments)) break;
 
       // Create piece from card
       const piece = createPieceFromCard(card, state.player.id, state.player.matchId);
@@ -464,7 +499,7 @@ export function executeBotAction(action: BotAction, state: BotState): BotState {
     case 'UNDEPLOY': {
       if (!action.pieceId) break;
       const piece = state.board.pieces[action.pieceId];
-      if (!piece || state.bench.length >= BENCH_SIZE) break;
+      if (!piece || state.bench.length >= getBenchSize(state.player.augments)) break;
 
       // Find empty bench slot
       const usedSlots = new Set(state.bench.map(p => p.benchSlot));
@@ -546,6 +581,29 @@ export function executeBotAction(action: BotAction, state: BotState): BotState {
       newState.bench = [...newState.bench, merged];
       break;
     }
+
+    case 'AUGMENT': {
+      const augmentId = action.augmentId;
+      if (!augmentId || !state.augmentOffer.includes(augmentId)) break;
+
+      const augments = [...state.player.augments, augmentId];
+      newState.player = { ...state.player, augments };
+      newState.board = { ...state.board, augments };
+      newState.augmentOffer = [];
+
+      // Free unit onto the bench (skipped when the bench is full)
+      const { freeUnitCost } = AUGMENT_DEFINITIONS[augmentId];
+      const card = freeUnitCost ? drawCardOfCost(freeUnitCost, state.cardPool) : null;
+      if (card && state.bench.length < getBenchSize(augments)) {
+        const piece = createPieceFromCard(card, state.player.id, state.player.matchId);
+        const usedSlots = new Set(state.bench.map(p => p.benchSlot));
+        let slot = 0;
+        while (usedSlots.has(slot)) slot++;
+        piece.benchSlot = slot;
+        newState.bench = [...state.bench, piece];
+      }
+      break;
+    }
   }
 
   return newState;
@@ -556,7 +614,7 @@ export function executeBotAction(action: BotAction, state: BotState): BotState {
 // =============================================
 
 export function generateBotSystemPrompt(state: BotState): string {
-  const { player, board, bench, shop, allPlayers } = state;
+  const { player, board, bench, shop, allPlayers, augmentOffer } = state;
 
   return `You are an AI player in an auto-chess game. Make optimal decisions based on the current game state.
 
@@ -572,13 +630,20 @@ export function generateBotSystemPrompt(state: BotState): string {
 | Artillery | 3 | 3-4 | 0 | AoE(3) | 0-1 | 3 |
 | Anti-Air | 3 | 2-3 | 0 | Radius(3) | 1 | 2 |
 | Aircraft | 4 | 2-3 | 0 | Line sweep(2) | 2 | 3 |
+| Medic | 3 | 0 | 0 | Heals ally(2) | 2 | 2 |
+| Flamethrower | 4 | 2-3 | 0 | Cone(1), ignores cover | 2 | 2 |
+| Paratrooper | 3 | 2-3 | 0 | Melee(1), drops on enemy back row | 2 | 2 |
+| Sniper | 2 | 3-4 | 0 | Precision(4), ignores defense | 1 | 3 |
+| Heavy Bomber | 6 | 4-5 | 1 | Delayed AoE(3) | 1 | 4 |
 
 ## Synergy Effects
-- Infantry x3: Infantry +1 defense
-- Engineer x2: Fortification +1 armor
-- Armor x2: Armored car and tank +1 speed
-- Artillery x2: Artillery +1 attack
-- Air x2: Aircraft 25% dodge
+- Infantry x3/x6: Infantry +1/+2 defense
+- Engineer x2/x4: Fortification +1/+2 armor
+- Armor x2/x4: Armored car and tank +1/+2 speed
+- Artillery x2/x4: Artillery +1/+2 attack
+- Air x2/x4: Aircraft 25%/40% dodge
+- Medic x2/x4: Medics heal +1/+2 HP
+- Factions x2/x4/x6 (unit's faction): US +1/+2/+3 attack, UK +1/+2/+3 defense, USSR +2/+4/+6 HP, Germany +20%/+35%/+50% blitz, Japan +1/+2/+3 speed
 
 ## Merge Rules
 - 3 same-star same-type units merge into higher star
@@ -591,6 +656,11 @@ export function generateBotSystemPrompt(state: BotState): string {
 - Gold: ${player.money}
 - Level: ${player.level}
 - Unit Cap: ${getUnitCap()}
+- Bench Slots: ${getBenchSize(player.augments)}
+- Augments: ${player.augments.map(id => AUGMENT_DEFINITIONS[id].name).join(', ') || 'None'}
+
+## Augment Offer
+${augmentOffer.map(id => `- ${id}: ${AUGMENT_DEFINITIONS[id].name} (${AUGMENT_DEFINITIONS[id].description})`).join('\n') || 'None'}
 
 ## All Players
 ${allPlayers.map(p => `- ${p.name}: HP=${p.hp}, Gold=${p.money}, ${p.isAlive ? 'Alive' : 'Eliminated'}`).join('\n')}
@@ -635,6 +705,7 @@ ${shop.cards
 - SELL piece_id: Sell unit
 - REFRESH: Refresh shop (costs 2 gold)
 - MERGE piece_id1,piece_id2,piece_id3: Merge three units
+- AUGMENT augment_id: Pick one augment from the offer (when there is one)
 - READY: Finish all operations
 
 Return your decision commands, one per line.`;
@@ -0,0 +1,107 @@
+import { BoardState, CommanderId, REFRESH_COST } from '../types';
+
+// =============================================
+// Commanders
+// Each player picks one of a few randomly offered commanders at match start.
+// A commander's passive is plain data read by the system it changes: the
+// economy, the shop, or the battle engine (through the battle board).
+// =============================================
+
+export interface CommanderDefinition {
+  id: CommanderId;
+  name: string;
+  title: string;
+  description: string;
+  interestCapBonus: number; // Extra interest gold allowed per round
+  winGoldBonus: number; // Extra gold for every battle won
+  freeFirstRefresh: boolean; // The first shop refresh of each round costs nothing
+  fortifiesDiagonally: boolean; // Engineers also build sandbags under diagonal allies
+  blitzChance: number; // Extra chance for every unit to attack again
+}
+
+export const COMMANDER_DEFINITIONS: Record<CommanderId, CommanderDefinition> = {
+  eisenhower: {
+    id: 'eisenhower',
+    name: 'Eisenhower',
+    title: 'Supreme Allied Commander',
+    description: '+1 interest cap',
+    interestCapBonus: 1,
+    winGoldBonus: 0,
+    freeFirstRefresh: false,
+    fortifiesDiagonally: false,
+    blitzChance: 0,
+  },
+  montgomery: {
+    id: 'montgomery',
+    name: 'Montgomery',
+    title: 'Field Marshal',
+    description: 'Engineers fortify diagonally',
+    interestCapBonus: 0,
+    winGoldBonus: 0,
+    freeFirstRefresh: false,
+    fortifiesDiagonally: true,
+    blitzChance: 0,
+  },
+  zhukov: {
+    id: 'zhukov',
+    name: 'Zhukov',
+    title: 'Marshal of the Soviet Union',
+    description: 'First shop refresh each round is free',
+    interestCapBonus: 0,
+    winGoldBonus: 0,
+    freeFirstRefresh: true,
+    fortifiesDiagonally: false,
+    blitzChance: 0,
+  },
+  patton: {
+    id: 'patton',
+    name: 'Patton',
+    title: 'General',
+    description: '+1 gold for every battle won',
+    interestCapBonus: 0,
+    winGoldBonus: 1,
+    freeFirstRefresh: false,
+    fortifiesDiagonally: false,
+    blitzChance: 0,
+  },
+  rommel: {
+    id: 'rommel',
+    name: 'Rommel',
+    title: 'The Desert Fox',
+    description: 'All units +10% chance to attack again',
+    interestCapBonus: 0,
+    winGoldBonus: 0,
+    freeFirstRefresh: false,
+    fortifiesDiagonally: false,
+    blitzChance: 0.1,
+  },
+};
+
+// Commanders offered to each player at match start
+export const COMMANDER_OFFER_SIZE = 3;
+
+export function getCommander(
+  commanderId: CommanderId | null | undefined
+): CommanderDefinition | null {
+  return commanderId ? COMMANDER_DEFINITIONS[commanderId] : null;
+}
+
+// Random commanders for a player to pick from
+export function rollCommanderOffer(): CommanderId[] {
+  const ids = Object.keys(COMMANDER_DEFINITIONS) as CommanderId[];
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  return ids.slice(0, COMMANDER_OFFER_SIZE);
+}
+
+// Refresh cost of the shop at the start of a round
+export function getRoundStartRefreshCost(commanderId: CommanderId | null | undefined): number {
+  return getCommander(commanderId)?.freeFirstRefresh ? 0 : REFRESH_COST;
+}
+
+// Commander of a side in battle
+export function getBattleCommander(board: BoardState, ownerId: string): CommanderDefinition | null {
+  return getCommander(board.commanders?.[ownerId]);
+}
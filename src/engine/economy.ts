@@ -1,12 +1,16 @@
-import { Player, BASE_INCOME, BattleResult } from '../types';
+import { Player, Piece, BASE_INCOME, BattleResult, DamageBreakdownItem, ItemId } from '../types';
+import { UNIT_DEFINITIONS } from '../types/units';
+import { getCommander } from './commanders';
+import { getAugmentIncome } from './augments';
+import { getItems } from './items';
 
 // =============================================
 // Economy System
 // =============================================
 
-// Interest tiers: every 10 gold = +1 interest, max +5
-export function calculateInterest(gold: number): number {
-  return Math.min(5, Math.floor(gold / 10));
+// Interest tiers: every 10 gold = +1 interest, max +5 (plus any commander bonus)
+export function calculateInterest(gold: number, capBonus = 0): number {
+  return Math.min(5 + capBonus, Math.floor(gold / 10));
 }
 
 // Win/lose streak bonus
@@ -25,17 +29,21 @@ export function calculateRoundIncome(
   battleResult: BattleResult | null,
   isWinner: boolean
 ): number {
+  const commander = getCommander(player.commanderId);
   let income = BASE_INCOME; // BASE_INCOME = 5
 
-  // Interest (max 5)
-  income += calculateInterest(player.money);
+  // Interest (max 5, raised by the commander)
+  income += calculateInterest(player.money, commander?.interestCapBonus);
 
   // Streak bonus (max 3)
   income += calculateStreakBonus(player.winStreak, player.loseStreak);
 
+  // Augment income
+  income += getAugmentIncome(player.augments);
+
   // Win bonus - reduced from survivors to flat +1
   if (battleResult && isWinner) {
-    income += 1;
+    income += 1 + (commander?.winGoldBonus ?? 0);
     // Removed survivor bonus as it was too high
   }
 
@@ -65,14 +73,79 @@ export function updatePlayerStreaks(
   }
 }
 
-// Calculate damage dealt to loser
-export function calculateDamageToLoser(battleResult: BattleResult): number {
-  if (battleResult.isDraw) {
-    return 5; // Fixed draw damage
-  }
+// Player damage model - how much HP a battle costs
+export interface PlayerDamageConfig {
+  baseDamage: number; // Flat damage for losing a battle
+  drawDamage: number; // Flat damage each player takes on a draw
+  damagePerRound: number; // Scales with the round number (rounded down)
+  damagePerSurvivorStar: number; // Per star level of each surviving enemy piece
+  damagePerSurvivorCost: number; // Per gold of unit cost of the surviving enemy pieces (rounded down)
+}
+
+export const PLAYER_DAMAGE_CONFIG: PlayerDamageConfig = {
+  baseDamage: 2,
+  drawDamage: 3,
+  damagePerRound: 0.5,
+  damagePerSurvivorStar: 1,
+  damagePerSurvivorCost: 0.5,
+};
+
+export interface PlayerDamage {
+  total: number;
+  breakdown: DamageBreakdownItem[];
+}
+
+function sumBreakdown(breakdown: DamageBreakdownItem[]): PlayerDamage {
+  // Leave out lines that add nothing (e.g. the round line in round 1)
+  const items = breakdown.filter(item => item.amount > 0);
+  return { total: items.reduce((sum, item) => sum + item.amount, 0), breakdown: items };
+}
 
-  // Damage = sum of surviving units' attack
-  return Math.max(1, battleResult.damageDealt);
+function getRoundDamageItem(round: number, config: PlayerDamageConfig): DamageBreakdownItem {
+  return {
+    source: 'round',
+    label: `Round ${round}`,
+    amount: Math.floor(round * config.damagePerRound),
+  };
+}
+
+// Damage the loser takes from the winner's surviving pieces
+export function calculateLoserDamage(
+  winnerSurvivors: Piece[],
+  round: number,
+  config: PlayerDamageConfig = PLAYER_DAMAGE_CONFIG
+): PlayerDamage {
+  const starLevels = winnerSurvivors.reduce((sum, p) => sum + p.level, 0);
+  const unitCost = winnerSurvivors.reduce(
+    (sum, p) => sum + (UNIT_DEFINITIONS[p.typeId]?.cost ?? 0),
+    0
+  );
+
+  return sumBreakdown([
+    { source: 'base', label: 'Defeat', amount: config.baseDamage },
+    getRoundDamageItem(round, config),
+    {
+      source: 'survivor_stars',
+      label: `${winnerSurvivors.length} surviving units (${starLevels}★)`,
+      amount: starLevels * config.damagePerSurvivorStar,
+    },
+    {
+      source: 'survivor_cost',
+      label: `Surviving unit cost (${unitCost} gold)`,
+      amount: Math.floor(unitCost * config.damagePerSurvivorCost),
+    },
+  ]);
+}
+
+// Damage each player takes on a draw
+export function calculateDrawDamage(
+  round: number,
+  config: PlayerDamageConfig = PLAYER_DAMAGE_CONFIG
+): PlayerDamage {
+  return sumBreakdown([
+    { source: 'draw', label: 'Draw', amount: config.drawDamage },
+    getRoundDamageItem(round, config),
+  ]);
 }
 
 // Sell piece for gold (units sell for cost - 1, minimum 1)
@@ -84,6 +157,21 @@ export function calculateSellPrice(unitCost: number, starLevel: number): number
   return Math.max(1, unitCost * multiplier - 1);
 }
 
+// What selling a piece gives back: its gold, its cards to the pool and its items to the item bench
+export interface SellRefund {
+  gold: number;
+  poolCards: number; // 1 for 1*, 3 for 2*, 9 for 3*
+  items: ItemId[];
+}
+
+export function getSellRefund(piece: Piece): SellRefund {
+  return {
+    gold: calculateSellPrice(UNIT_DEFINITIONS[piece.typeId].cost, piece.level),
+    poolCards: Math.pow(3, piece.level - 1),
+    items: getItems(piece),
+  };
+}
+
 // Level up costs
 export const LEVEL_UP_COSTS: Record<number, number> = {
   1: 4,
@@ -124,16 +212,16 @@ export function getUnitCap(): number {
 // Shop odds per level (probability of each cost tier)
 // More balanced distribution to ensure variety even at low levels
 export const SHOP_ODDS: Record<number, Record<number, number>> = {
-  // Level: { cost1: %, cost2: %, cost3: % }
-  1: { 1: 50, 2: 35, 3: 15 }, // More variety at level 1
-  2: { 1: 45, 2: 35, 3: 20 },
-  3: { 1: 40, 2: 35, 3: 25 },
-  4: { 1: 35, 2: 35, 3: 30 },
-  5: { 1: 30, 2: 35, 3: 35 },
-  6: { 1: 25, 2: 35, 3: 40 },
-  7: { 1: 20, 2: 30, 3: 50 },
-  8: { 1: 15, 2: 25, 3: 60 },
-  9: { 1: 10, 2: 20, 3: 70 },
+  // Level: { cost1: %, cost2: %, cost3: %, cost4: % }
+  1: { 1: 50, 2: 35, 3: 15, 4: 0 }, // More variety at level 1
+  2: { 1: 45, 2: 35, 3: 20, 4: 0 },
+  3: { 1: 40, 2: 35, 3: 25, 4: 0 },
+  4: { 1: 35, 2: 35, 3: 28, 4: 2 }, // 4-cost units start showing up
+  5: { 1: 30, 2: 33, 3: 32, 4: 5 },
+  6: { 1: 25, 2: 32, 3: 35, 4: 8 },
+  7: { 1: 20, 2: 28, 3: 40, 4: 12 },
+  8: { 1: 15, 2: 23, 3: 47, 4: 15 },
+  9: { 1: 10, 2: 18, 3: 52, 4: 20 },
 };
 
 export function getShopOdds(level: number): Record<number, number> {
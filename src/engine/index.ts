@@ -6,3 +6,18 @@ export * from './economy';
 export * from './shop';
 export * from './synergy';
 export * from './bot';
+export * from './random';
+export * from './battleStep';
+export * from './replay';
+export * from './upgrades';
+export * from './traits';
+export * from './targeting';
+export * from './statusEffects';
+export * from './terrain';
+export * from './strafing';
+export * from './obstacles';
+export * from './battleStats';
+export * from './items';
+export * from './pve';
+export * from './commanders';
+export * from './augments';
@@ -0,0 +1,122 @@
+import { ItemId, Piece } from '../types';
+import { PieceStats } from './upgrades';
+
+// =============================================
+// Items
+// Equipment players earn between rounds and attach to pieces during
+// preparation. Stat bonuses are added to the piece when the item is attached
+// (and again whenever the piece is merged); combat items are read by the
+// battle engine.
+// =============================================
+
+type ItemStats = Pick<PieceStats, 'maxHp' | 'defense' | 'range'>;
+
+export interface ItemDefinition {
+  id: ItemId;
+  name: string;
+  description: string;
+  hpBonus: number;
+  defenseBonus: number;
+  rangeBonus: number;
+}
+
+export const ITEM_DEFINITIONS: Record<ItemId, ItemDefinition> = {
+  radio: {
+    id: 'radio',
+    name: 'Radio',
+    description: '+1 range',
+    hpBonus: 0,
+    defenseBonus: 0,
+    rangeBonus: 1,
+  },
+  ammo_crate: {
+    id: 'ammo_crate',
+    name: 'Ammo Crate',
+    description: 'Attacks 5 turns sooner after each attack',
+    hpBonus: 0,
+    defenseBonus: 0,
+    rangeBonus: 0,
+  },
+  camouflage_net: {
+    id: 'camouflage_net',
+    name: 'Camouflage Net',
+    description: 'The first hit taken each battle misses',
+    hpBonus: 0,
+    defenseBonus: 0,
+    rangeBonus: 0,
+  },
+  armor_plate: {
+    id: 'armor_plate',
+    name: 'Armor Plate',
+    description: '+1 defense, +2 max HP',
+    hpBonus: 2,
+    defenseBonus: 1,
+    rangeBonus: 0,
+  },
+};
+
+export const ALL_ITEMS = Object.keys(ITEM_DEFINITIONS) as ItemId[];
+
+export const MAX_ITEMS_PER_PIECE = 3;
+
+// Every player earns an item after the battle of every this many rounds
+export const ITEM_DROP_INTERVAL = 3;
+
+// Attack cooldown turns each ammo crate saves
+export const AMMO_CRATE_COOLDOWN_REDUCTION = 5;
+
+export function getItems(piece: Pick<Piece, 'items'>): ItemId[] {
+  return piece.items ?? [];
+}
+
+export function hasItem(piece: Pick<Piece, 'items'>, itemId: ItemId): boolean {
+  return getItems(piece).includes(itemId);
+}
+
+export function canEquipItem(piece: Piece): boolean {
+  return getItems(piece).length < MAX_ITEMS_PER_PIECE;
+}
+
+// Apply item stat bonuses on top of a piece's star level and trait stats
+export function applyItemStatEffects<T extends ItemStats>(stats: T, items: ItemId[]): T {
+  const result = { ...stats };
+
+  for (const itemId of items) {
+    const def = ITEM_DEFINITIONS[itemId];
+    result.maxHp += def.hpBonus;
+    result.defense += def.defenseBonus;
+    result.range += def.rangeBonus;
+  }
+
+  return result;
+}
+
+// Attach an item to a piece, adding its stat bonuses - the bonus HP is gained right away
+export function equipItem(piece: Piece, itemId: ItemId): Piece {
+  const def = ITEM_DEFINITIONS[itemId];
+  return {
+    ...piece,
+    ...applyItemStatEffects(piece, [itemId]),
+    currentHp: piece.currentHp + def.hpBonus,
+    items: [...getItems(piece), itemId],
+  };
+}
+
+// Items the pieces being merged carry beyond what the merged piece can hold
+export function getMergeOverflowItems(pieces: Piece[]): ItemId[] {
+  return pieces.flatMap(getItems).slice(MAX_ITEMS_PER_PIECE);
+}
+
+// Turns an attack cooldown is shortened by the piece's ammo crates
+export function getAttackCooldownReduction(piece: Piece): number {
+  return getItems(piece).filter(i => i === 'ammo_crate').length * AMMO_CRATE_COOLDOWN_REDUCTION;
+}
+
+export function shouldDropItem(round: number): boolean {
+  return round > 0 && round % ITEM_DROP_INTERVAL === 0;
+}
+
+// Random item for a drop
+export function rollItem(): ItemId {
+  return ALL_ITEMS[Math.floor(Math.random() * ALL_ITEMS.length)];
+}
@@ -0,0 +1,140 @@
+import { BoardState, Obstacle, ObstacleType, Piece, Position } from '../types';
+import { positionToKey } from './board';
+import { getMovementProfile } from './terrain';
+
+// =============================================
+// Obstacles
+// Engineers build sandbags, barbed wire and tank traps on battle tiles. Each
+// obstacle has its own HP and only hinders the other side. Aircraft fly over
+// all of them and shoot straight past sandbags.
+// =============================================
+
+export interface ObstacleDefinition {
+  type: ObstacleType;
+  name: string;
+  baseHp: number;
+  footMoveCost: number; // Extra pathfinding weight for enemy foot units entering the tile
+  blocksVehicles: boolean; // Impassable for enemy vehicles
+  crushedByVehicles: boolean; // Destroyed when an enemy vehicle enters the tile
+  givesCover: boolean; // Armor for the friendly ground unit standing on the tile
+}
+
+export const OBSTACLE_DEFINITIONS: Record<ObstacleType, ObstacleDefinition> = {
+  sandbags: {
+    type: 'sandbags',
+    name: 'Sandbags',
+    baseHp: 3,
+    footMoveCost: 0,
+    blocksVehicles: false,
+    crushedByVehicles: false,
+    givesCover: true,
+  },
+  barbed_wire: {
+    type: 'barbed_wire',
+    name: 'Barbed Wire',
+    baseHp: 2,
+    footMoveCost: 2,
+    blocksVehicles: false,
+    crushedByVehicles: true,
+    givesCover: false,
+  },
+  tank_trap: {
+    type: 'tank_trap',
+    name: 'Tank Trap',
+    baseHp: 4,
+    footMoveCost: 0,
+    blocksVehicles: true,
+    crushedByVehicles: false,
+    givesCover: false,
+  },
+};
+
+// Obstacles standing at once for each engineer - new ones wait until one is destroyed or crumbles
+export const MAX_OBSTACLES_PER_ENGINEER = 3;
+
+// Turns an obstacle stands before it crumbles, and the extra turns (one engineer build cycle)
+// each fortification duration upgrade adds
+export const OBSTACLE_BASE_DURATION = 60;
+export const OBSTACLE_DURATION_STEP = 20;
+
+export function getObstacle(board: BoardState, pos: Position): Obstacle | null {
+  return board.obstacles?.[positionToKey(pos)] ?? null;
+}
+
+// Place an obstacle on the tile, or clear it with null
+export function setObstacle(
+  board: BoardState,
+  pos: Position,
+  obstacle: Obstacle | null
+): BoardState {
+  const obstacles = { ...board.obstacles };
+  if (obstacle) {
+    obstacles[positionToKey(pos)] = obstacle;
+  } else {
+    delete obstacles[positionToKey(pos)];
+  }
+  return { ...board, obstacles };
+}
+
+// Obstacles still standing that the engineer built
+export function countObstaclesBuiltBy(board: BoardState, engineerId: string): number {
+  return Object.values(board.obstacles ?? {}).filter(o => o.builderId === engineerId).length;
+}
+
+// Enemy obstacle on the tile that gets in the piece's way - aircraft are never hindered
+function getHinderingObstacle(board: BoardState, pos: Position, piece: Piece): Obstacle | null {
+  const obstacle = getObstacle(board, pos);
+  if (!obstacle || obstacle.ownerId === piece.ownerId) return null;
+  return getMovementProfile(piece) === 'air' ? null : obstacle;
+}
+
+// Pathfinding weight for the piece entering the tile once obstacles are added on top of the
+// terrain cost (0 = impassable)
+export function getObstacleMoveCost(
+  board: BoardState,
+  pos: Position,
+  piece: Piece,
+  terrainCost: number
+): number {
+  const obstacle = getHinderingObstacle(board, pos, piece);
+  if (!obstacle || terrainCost === 0) return terrainCost;
+
+  const def = OBSTACLE_DEFINITIONS[obstacle.type];
+  if (getMovementProfile(piece) === 'vehicle') {
+    return def.blocksVehicles ? 0 : terrainCost;
+  }
+  return terrainCost + def.footMoveCost;
+}
+
+// Damage the obstacle takes from the piece entering its tile - vehicles crush barbed wire,
+// foot units trample it
+export function getTrampleDamage(board: BoardState, pos: Position, piece: Piece): number {
+  const obstacle = getHinderingObstacle(board, pos, piece);
+  if (!obstacle) return 0;
+
+  const def = OBSTACLE_DEFINITIONS[obstacle.type];
+  if (def.crushedByVehicles && getMovementProfile(piece) === 'vehicle') {
+    return obstacle.hp;
+  }
+  return def.footMoveCost > 0 ? 1 : 0;
+}
+
+// Sandbags covering the defender against the attacker - none for or against aircraft
+export function getCoveringSandbags(
+  board: BoardState,
+  defender: Piece,
+  defenderPos: Position,
+  attacker: Piece
+): Obstacle | null {
+  const obstacle = getObstacle(board, defenderPos);
+  if (
+    !obstacle ||
+    !OBSTACLE_DEFINITIONS[obstacle.type].givesCover ||
+    obstacle.ownerId !== defender.ownerId ||
+    getMovementProfile(defender) === 'air' ||
+    getMovementProfile(attacker) === 'air'
+  ) {
+    return null;
+  }
+  return obstacle;
+}
@@ -1,89 +1,36 @@
-import { Graph, astar } from 'javascript-astar';
-import { BoardState, Position, Piece } from '../types';
-import { positionToKey, isValidPosition, getDistance } from './board';
+import { BoardState, Piece, Position } from '../types';
+import { getDistance, isValidPosition, keyToPosition } from './board';
+import { MovementProfile, getMovementProfile, getTerrainTypeMoveCost } from './terrain';
+import { getObstacleMoveCost } from './obstacles';
 
 // =============================================
-// A* Pathfinding Implementation
-// Based on creature-chess pathfinding module
+// Distance-Field Pathfinding
+// Instead of searching a path from every piece to every tile it could attack
+// from, each target gets one distance field per turn: the cheapest cost from
+// every tile to a tile in attack range of it. Pieces closing in on the target
+// read their next step straight off the field.
 // =============================================
 
-export interface Path {
-  stepCount: number;
-  firstStep: Position;
-  fullPath: Position[];
+// Cost and step count from a tile to the nearest attack position
+interface FieldEntry {
+  cost: number; // Sum of the tile weights entered on the way, Infinity if unreachable
+  steps: number;
 }
 
-export class Pathfinder {
-  private graph: Graph;
-  private size: { width: number; height: number };
+export class DistanceField {
+  private width: number;
+  private costs: Float64Array;
+  private steps: Float64Array;
 
-  constructor(size: { width: number; height: number }) {
-    this.size = size;
-    const weights = this.createEmptyWeightGrid();
-    this.graph = new Graph(weights);
+  constructor(width: number, costs: Float64Array, steps: Float64Array) {
+    this.width = width;
+    this.costs = costs;
+    this.steps = steps;
   }
 
-  private createEmptyWeightGrid(): number[][] {
-    const grid: number[][] = [];
-    for (let x = 0; x < this.size.width; x++) {
-      const column: number[] = [];
-      for (let y = 0; y < this.size.height; y++) {
-        column.push(1); // 1 = walkable
-      }
-      grid.push(column);
-    }
-    return grid;
-  }
-
-  private setWeights(board: BoardState): void {
-    for (let x = 0; x < this.size.width; x++) {
-      for (let y = 0; y < this.size.height; y++) {
-        const key = positionToKey({ x, y });
-        // 0 = blocked (occupied), 1 = walkable
-        this.graph.grid[x][y].weight = board.piecePositions[key] ? 0 : 1;
-      }
-    }
-  }
-
-  getPath(board: BoardState, start: Position, end: Position): Position[] | null {
-    this.setWeights(board);
-
-    // Mark start as walkable (we're standing on it)
-    this.graph.grid[start.x][start.y].weight = 1;
-
-    // Mark end as walkable (we want to reach it)
-    if (isValidPosition(end, board)) {
-      this.graph.grid[end.x][end.y].weight = 1;
-    }
-
-    const startNode = this.graph.grid[start.x][start.y];
-    const endNode = this.graph.grid[end.x]?.[end.y];
-
-    if (!startNode || !endNode) {
-      return null;
-    }
-
-    const path = astar.search(this.graph, startNode, endNode);
-
-    if (path.length === 0) {
-      return null;
-    }
-
-    return path.map(node => ({ x: node.x, y: node.y }));
-  }
-
-  getFirstStep(board: BoardState, start: Position, end: Position): Path | null {
-    const path = this.getPath(board, start, end);
-
-    if (!path || path.length === 0) {
-      return null;
-    }
-
-    return {
-      stepCount: path.length,
-      firstStep: path[0],
-      fullPath: path,
-    };
+  get(pos: Position): FieldEntry {
+    const i = pos.y * this.width + pos.x;
+    return { cost: this.costs[i], steps: this.steps[i] };
   }
 }
 
@@ -107,112 +54,328 @@ export function getAttackPositions(
   return positions;
 }
 
-// Sort paths by step count and direction priority
-export function sortPaths(paths: Path[], startPos: Position, facingUp: boolean): void {
+// Step directions in tie-break order - forward, right, backward, left relative to facing
+export function getStepDirections(facingUp: boolean): Position[] {
   const forwardY = facingUp ? -1 : 1;
-  const directionPriority = [
-    { x: 0, y: forwardY }, // Forward
-    { x: forwardY, y: 0 }, // Right (relative to facing)
-    { x: 0, y: -forwardY }, // Backward
-    { x: -forwardY, y: 0 }, // Left (relative to facing)
+  return [
+    { x: 0, y: forwardY },
+    { x: forwardY, y: 0 },
+    { x: 0, y: -forwardY },
+    { x: -forwardY, y: 0 },
   ];
+}
 
-  const getPriority = (step: Position): number => {
-    const dx = step.x - startPos.x;
-    const dy = step.y - startPos.y;
-    return directionPriority.findIndex(dir => dir.x === dx && dir.y === dy);
-  };
+const UP_STEPS = getStepDirections(true);
+const DOWN_STEPS = getStepDirections(false);
+
+// Tile weights as one movement profile and owner see them - terrain plus enemy obstacles,
+// 0 if impassable. Tiles start at their plain-ground weight, then only the tiles listed in the
+// terrain and obstacle layouts are looked at.
+function buildWeightGrid(board: BoardState, piece: Piece): Float64Array {
+  const { width } = board.size;
+  const profile = getMovementProfile(piece);
+  const weights = new Float64Array(width * board.size.height).fill(
+    getTerrainTypeMoveCost('plain', profile)
+  );
+
+  for (const key in board.terrain) {
+    const pos = keyToPosition(key);
+    if (!isValidPosition(pos, board)) continue;
+    weights[pos.y * width + pos.x] = getTerrainTypeMoveCost(board.terrain[key], profile);
+  }
+  for (const key in board.obstacles) {
+    const pos = keyToPosition(key);
+    if (!isValidPosition(pos, board)) continue;
+    const i = pos.y * width + pos.x;
+    weights[i] = getObstacleMoveCost(board, pos, piece, weights[i]);
+  }
 
-  paths.sort((a, b) => {
-    if (a.stepCount !== b.stepCount) {
-      return a.stepCount - b.stepCount;
-    }
-    return getPriority(a.firstStep) - getPriority(b.firstStep);
-  });
+  return weights;
 }
 
-// Find the best next position to move towards a target
-export function getNextPiecePosition(
-  pathfinder: Pathfinder,
-  attackerPos: Position,
-  attackerFacingUp: boolean,
-  attackRange: number,
-  targetPos: Position,
-  board: BoardState
-): Position | null {
-  // Get all positions from which we can attack the target
-  const attackPositions = getAttackPositions(board.size, targetPos, attackRange);
-
-  // Find paths to each attack position
-  const paths: Path[] = [];
-  for (const pos of attackPositions) {
-    const path = pathfinder.getFirstStep(board, attackerPos, pos);
-    if (path) {
-      paths.push(path);
-    }
+// Weight grids only change with the terrain or obstacle layout, and both are replaced rather
+// than edited, so grids are cached on the layout objects and carry over from turn to turn
+const NO_LAYOUT = {};
+const weightGrids = new WeakMap<
+  object,
+  WeakMap<object, Map<MovementProfile, Map<string, Float64Array>>>
+>();
+
+function getWeightGrid(board: BoardState, piece: Piece): Float64Array {
+  let byObstacles = weightGrids.get(board.terrain ?? NO_LAYOUT);
+  if (!byObstacles) {
+    byObstacles = new WeakMap();
+    weightGrids.set(board.terrain ?? NO_LAYOUT, byObstacles);
+  }
+  let byProfile = byObstacles.get(board.obstacles ?? NO_LAYOUT);
+  if (!byProfile) {
+    byProfile = new Map();
+    byObstacles.set(board.obstacles ?? NO_LAYOUT, byProfile);
+  }
+  const profile = getMovementProfile(piece);
+  let byOwner = byProfile.get(profile);
+  if (!byOwner) {
+    byOwner = new Map();
+    byProfile.set(profile, byOwner);
   }
 
-  if (paths.length === 0) {
-    return null;
+  // Only obstacles care who is moving
+  const owner = board.obstacles ? piece.ownerId : '';
+  let weights = byOwner.get(owner);
+  if (!weights) {
+    weights = buildWeightGrid(board, piece);
+    byOwner.set(owner, weights);
   }
+  return weights;
+}
+
+// Occupied tiles as a grid (1 = taken), read off the positions index
+function buildOccupancy(board: BoardState): Uint8Array {
+  const { width } = board.size;
+  const occupied = new Uint8Array(width * board.size.height);
+  for (const key in board.piecePositions) {
+    const pos = board.pieces[board.piecePositions[key]]?.position;
+    if (pos) occupied[pos.y * width + pos.x] = 1;
+  }
+  return occupied;
+}
 
-  // Sort paths by shortest and direction priority
-  sortPaths(paths, attackerPos, attackerFacingUp);
+// Binary min-heap of tiles keyed by (cost, steps, tile). Entries carry the key they were
+// pushed with, so a tile can sit in the heap more than once and stale entries are skipped.
+class FieldQueue {
+  private tiles = new Int32Array(64);
+  private costs = new Float64Array(64);
+  private steps = new Float64Array(64);
+  size = 0;
 
-  // Return the first step of the best path
-  const bestPath = paths[0];
-  if (bestPath.firstStep.x < 0 || bestPath.firstStep.y < 0) {
-    return null;
+  clear(): void {
+    this.size = 0;
   }
 
-  return bestPath.firstStep;
+  private less(a: number, b: number): boolean {
+    if (this.costs[a] !== this.costs[b]) return this.costs[a] < this.costs[b];
+    if (this.steps[a] !== this.steps[b]) return this.steps[a] < this.steps[b];
+    return this.tiles[a] < this.tiles[b];
+  }
+
+  private swap(a: number, b: number): void {
+    const tile = this.tiles[a];
+    const cost = this.costs[a];
+    const steps = this.steps[a];
+    this.tiles[a] = this.tiles[b];
+    this.costs[a] = this.costs[b];
+    this.steps[a] = this.steps[b];
+    this.tiles[b] = tile;
+    this.costs[b] = cost;
+    this.steps[b] = steps;
+  }
+
+  private grow(): void {
+    const tiles = new Int32Array(this.tiles.length * 2);
+    const costs = new Float64Array(this.costs.length * 2);
+    const steps = new Float64Array(this.steps.length * 2);
+    tiles.set(this.tiles);
+    costs.set(this.costs);
+    steps.set(this.steps);
+    this.tiles = tiles;
+    this.costs = costs;
+    this.steps = steps;
+  }
+
+  push(tile: number, cost: number, steps: number): void {
+    if (this.size === this.tiles.length) this.grow();
+
+    let i = this.size++;
+    this.tiles[i] = tile;
+    this.costs[i] = cost;
+    this.steps[i] = steps;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  // Remove the smallest entry - returns [tile, cost, steps] through the out array
+  pop(out: Float64Array): void {
+    out[0] = this.tiles[0];
+    out[1] = this.costs[0];
+    out[2] = this.steps[0];
+
+    this.size--;
+    if (this.size === 0) return;
+    this.tiles[0] = this.tiles[this.size];
+    this.costs[0] = this.costs[this.size];
+    this.steps[0] = this.steps[this.size];
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < this.size && this.less(left, smallest)) smallest = left;
+      if (right < this.size && this.less(right, smallest)) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
 }
 
-// Find nearest enemy for targeting
-export function findNearestEnemy(
-  board: BoardState,
-  piece: Piece,
-  piecePos: Position
-): { piece: Piece; position: Position; distance: number } | null {
-  let nearest: { piece: Piece; position: Position; distance: number } | null = null;
-
-  for (const [key, otherId] of Object.entries(board.piecePositions)) {
-    const other = board.pieces[otherId];
-    if (!other || other.ownerId === piece.ownerId || other.currentHp <= 0) {
+// Battles run one at a time, so every field shares one queue and settled buffer
+const queue = new FieldQueue();
+const popped = new Float64Array(3);
+let settled = new Uint8Array(64);
+
+// Cheapest way from every tile to a tile in attack range of the target, over the given tile
+// weights. Occupied tiles are walls, except attack positions - walking up to an occupied one
+// still closes the distance, and the piece stops short if it is still taken when it gets there.
+export function buildDistanceField(
+  size: { width: number; height: number },
+  targetPos: Position,
+  attackRange: number,
+  weights: Float64Array,
+  occupied: Uint8Array
+): DistanceField {
+  const { width, height } = size;
+  const tileCount = width * height;
+
+  const costs = new Float64Array(tileCount).fill(Infinity);
+  const steps = new Float64Array(tileCount).fill(Infinity);
+  if (settled.length < tileCount) settled = new Uint8Array(tileCount);
+  settled.fill(0, 0, tileCount);
+  queue.clear();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (Math.abs(x - targetPos.x) + Math.abs(y - targetPos.y) <= attackRange && weights[i] > 0) {
+        costs[i] = 0;
+        steps[i] = 0;
+        queue.push(i, 0, 0);
+      }
+    }
+  }
+
+  // Dijkstra outwards from the attack positions
+  while (queue.size > 0) {
+    queue.pop(popped);
+    const current = popped[0];
+    if (settled[current] || popped[1] !== costs[current] || popped[2] !== steps[current]) {
       continue;
     }
+    settled[current] = 1;
+
+    // Reaching this tile from a neighbour costs its weight
+    const cost = costs[current] + weights[current];
+    const stepCount = steps[current] + 1;
+    const x = current % width;
+    const y = (current - x) / width;
+
+    for (const dir of UP_STEPS) {
+      const nx = x + dir.x;
+      const ny = y + dir.y;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+      const next = ny * width + nx;
+      if (occupied[next] || weights[next] === 0) continue;
+      if (cost < costs[next] || (cost === costs[next] && stepCount < steps[next])) {
+        costs[next] = cost;
+        steps[next] = stepCount;
+        queue.push(next, cost, stepCount);
+      }
+    }
+  }
 
-    const otherPos = { x: parseInt(key.split(',')[0]), y: parseInt(key.split(',')[1]) };
-    const distance = getDistance(piecePos, otherPos);
+  return new DistanceField(width, costs, steps);
+}
 
-    if (!nearest || distance < nearest.distance) {
-      nearest = { piece: other, position: otherPos, distance };
+// Distance fields for one turn - built on first use and shared by every piece of a side heading
+// for the same target with the same attack range and movement profile
+export class TurnDistanceFields {
+  private fields = new Map<string, Map<MovementProfile, Map<number, DistanceField>>>();
+  private occupancy: { positions: BoardState['piecePositions']; occupied: Uint8Array } | null =
+    null;
+
+  // Occupied tiles of the board as it is now - pieces move during the turn
+  getOccupancy(board: BoardState): Uint8Array {
+    if (this.occupancy?.positions !== board.piecePositions) {
+      this.occupancy = { positions: board.piecePositions, occupied: buildOccupancy(board) };
     }
+    return this.occupancy.occupied;
   }
 
-  return nearest;
-}
+  getWeights(board: BoardState, piece: Piece): Float64Array {
+    return getWeightGrid(board, piece);
+  }
 
-// Find enemy within attack range
-export function findEnemyInRange(
-  board: BoardState,
-  piece: Piece,
-  piecePos: Position,
-  attackRange: number
-): { piece: Piece; position: Position } | null {
-  for (const [key, otherId] of Object.entries(board.piecePositions)) {
-    const other = board.pieces[otherId];
-    if (!other || other.ownerId === piece.ownerId || other.currentHp <= 0) {
-      continue;
+  get(board: BoardState, targetPos: Position, attackRange: number, piece: Piece): DistanceField {
+    let byProfile = this.fields.get(piece.ownerId);
+    if (!byProfile) {
+      byProfile = new Map();
+      this.fields.set(piece.ownerId, byProfile);
+    }
+    const profile = getMovementProfile(piece);
+    let fields = byProfile.get(profile);
+    if (!fields) {
+      fields = new Map();
+      byProfile.set(profile, fields);
     }
 
-    const otherPos = { x: parseInt(key.split(',')[0]), y: parseInt(key.split(',')[1]) };
-    const distance = getDistance(piecePos, otherPos);
+    // By target tile and attack range
+    const key = (targetPos.y * board.size.width + targetPos.x) * 64 + attackRange;
+    let field = fields.get(key);
+    if (!field) {
+      field = buildDistanceField(
+        board.size,
+        targetPos,
+        attackRange,
+        getWeightGrid(board, piece),
+        this.getOccupancy(board)
+      );
+      fields.set(key, field);
+    }
+    return field;
+  }
+}
 
-    if (distance <= attackRange) {
-      return { piece: other, position: otherPos };
+// Find the best next position to move towards a target: the free neighbouring tile with the
+// cheapest remaining cost, then the fewest steps, then forward/right/backward/left
+export function getNextPiecePosition(
+  fields: TurnDistanceFields,
+  attackerPos: Position,
+  attackerFacingUp: boolean,
+  attackRange: number,
+  targetPos: Position,
+  board: BoardState,
+  piece: Piece
+): Position | null {
+  const field = fields.get(board, targetPos, attackRange, piece);
+  const weights = fields.getWeights(board, piece);
+  // The field may be from earlier in the turn - pieces can have moved in since
+  const occupied = fields.getOccupancy(board);
+  const { width, height } = board.size;
+
+  let best: { pos: Position; entry: FieldEntry } | null = null;
+  for (const dir of attackerFacingUp ? UP_STEPS : DOWN_STEPS) {
+    const pos = { x: attackerPos.x + dir.x, y: attackerPos.y + dir.y };
+    if (pos.x < 0 || pos.x >= width || pos.y < 0 || pos.y >= height) continue;
+
+    const i = pos.y * width + pos.x;
+    const weight = weights[i];
+    const remaining = field.get(pos);
+    if (occupied[i] || weight === 0 || remaining.cost === Infinity) continue;
+
+    const entry = { cost: weight + remaining.cost, steps: remaining.steps + 1 };
+    if (
+      !best ||
+      entry.cost < best.entry.cost ||
+      (entry.cost === best.entry.cost && entry.steps < best.entry.steps)
+    ) {
+      best = { pos, entry };
     }
   }
 
-  return null;
+  return best?.pos ?? null;
 }
@@ -0,0 +1,184 @@
+import { BattleResult, BoardState, Piece, Player, Position, UnitTypeId } from '../types';
+import { addPieceToBoard, createBattleBoardFromTwo, createEmptyBoard } from './board';
+import { BattleState, calculateBattleResult, runBattle } from './battle';
+import { calculatePieceStats } from './upgrades';
+
+// =============================================
+// PvE Rounds
+// The opening rounds, and every few rounds after them, every player fights a
+// scripted enemy wave instead of another player. Waves are plain data, fought
+// on the normal battle engine, and pay out gold and items when beaten.
+// =============================================
+
+// Owner id of the wave's pieces on the battle board
+export const PVE_PLAYER_ID = 'pve';
+
+export interface PveUnit {
+  typeId: UnitTypeId;
+  level: number;
+  position: Position; // On the wave's own half, like a player board (mirrored for battle)
+}
+
+export interface PveReward {
+  gold: number;
+  items: number;
+}
+
+export interface PveWave {
+  id: string;
+  name: string;
+  description: string;
+  units: PveUnit[];
+  reward: PveReward; // Paid out to players who beat the wave
+}
+
+export const PVE_WAVES: Record<string, PveWave> = {
+  recon_patrol: {
+    id: 'recon_patrol',
+    name: 'Recon Patrol',
+    description: 'A pair of scouts probing the line',
+    units: [
+      { typeId: 'infantry', level: 1, position: { x: 2, y: 3 } },
+      { typeId: 'infantry', level: 1, position: { x: 3, y: 3 } },
+    ],
+    reward: { gold: 1, items: 0 },
+  },
+  forward_outpost: {
+    id: 'forward_outpost',
+    name: 'Forward Outpost',
+    description: 'Riflemen dug in behind an engineer',
+    units: [
+      { typeId: 'infantry', level: 1, position: { x: 1, y: 3 } },
+      { typeId: 'infantry', level: 1, position: { x: 4, y: 3 } },
+      { typeId: 'engineer', level: 1, position: { x: 2, y: 4 } },
+    ],
+    reward: { gold: 1, items: 1 },
+  },
+  armored_column: {
+    id: 'armored_column',
+    name: 'Armored Column',
+    description: 'A tank leading armored cars down the road',
+    units: [
+      { typeId: 'tank', level: 1, position: { x: 2, y: 3 } },
+      { typeId: 'armored_car', level: 1, position: { x: 1, y: 3 } },
+      { typeId: 'armored_car', level: 1, position: { x: 3, y: 3 } },
+      { typeId: 'armored_car', level: 1, position: { x: 4, y: 3 } },
+    ],
+    reward: { gold: 2, items: 1 },
+  },
+  air_raid: {
+    id: 'air_raid',
+    name: 'Air Raid',
+    description: 'Veteran fighters covering an infantry push',
+    units: [
+      { typeId: 'aircraft', level: 2, position: { x: 1, y: 5 } },
+      { typeId: 'aircraft', level: 2, position: { x: 4, y: 5 } },
+      { typeId: 'infantry', level: 2, position: { x: 2, y: 3 } },
+      { typeId: 'infantry', level: 2, position: { x: 3, y: 3 } },
+    ],
+    reward: { gold: 3, items: 1 },
+  },
+  fortified_line: {
+    id: 'fortified_line',
+    name: 'Fortified Line',
+    description: 'Guns and armor holding a defended position',
+    units: [
+      { typeId: 'tank', level: 2, position: { x: 2, y: 3 } },
+      { typeId: 'infantry', level: 2, position: { x: 1, y: 3 } },
+      { typeId: 'infantry', level: 2, position: { x: 3, y: 3 } },
+      { typeId: 'infantry', level: 2, position: { x: 4, y: 3 } },
+      { typeId: 'engineer', level: 2, position: { x: 3, y: 4 } },
+      { typeId: 'artillery', level: 2, position: { x: 1, y: 5 } },
+      { typeId: 'artillery', level: 2, position: { x: 4, y: 5 } },
+    ],
+    reward: { gold: 3, items: 2 },
+  },
+};
+
+// Waves fought in the first rounds, one per round from round 0
+export const OPENING_PVE_WAVES = ['recon_patrol', 'forward_outpost'];
+
+// After the opening, a wave every this many rounds - the last wave repeats once the list runs out
+export const PVE_ROUND_INTERVAL = 5;
+export const PERIODIC_PVE_WAVES = ['armored_column', 'air_raid', 'fortified_line'];
+
+// Wave fought this round, or null for a player vs player round
+export function getPveWave(round: number): PveWave | null {
+  if (round < OPENING_PVE_WAVES.length) {
+    return PVE_WAVES[OPENING_PVE_WAVES[round]];
+  }
+  if (round % PVE_ROUND_INTERVAL !== 0) {
+    return null;
+  }
+  const index = Math.min(round / PVE_ROUND_INTERVAL - 1, PERIODIC_PVE_WAVES.length - 1);
+  return PVE_WAVES[PERIODIC_PVE_WAVES[index]];
+}
+
+// The wave laid out as a player board
+export function createPveBoard(wave: PveWave, matchId: string): BoardState {
+  let board = createEmptyBoard();
+
+  wave.units.forEach((unit, i) => {
+    const stats = calculatePieceStats(unit.typeId, unit.level);
+    const piece: Piece = {
+      id: `${wave.id}-${i}`,
+      typeId: unit.typeId,
+      ownerId: PVE_PLAYER_ID,
+      matchId,
+      level: unit.level,
+      currentHp: stats.maxHp,
+      ...stats,
+      position: unit.position,
+      isOnBoard: true,
+      benchSlot: null,
+      status: 'idle',
+      facingUp: true,
+      traits: [],
+    };
+    board = addPieceToBoard(board, piece, unit.position);
+  });
+
+  return board;
+}
+
+// Stand-in opponent shown while a player fights the wave
+export function createPveOpponent(wave: PveWave, matchId: string): Player {
+  return {
+    id: PVE_PLAYER_ID,
+    matchId,
+    name: wave.name,
+    hp: 0,
+    money: 0,
+    level: 1,
+    isReady: true,
+    isAlive: true,
+    isBot: true,
+    placement: null,
+    winStreak: 0,
+    loseStreak: 0,
+    lastOpponentId: null,
+    commanderId: null,
+    augments: [],
+  };
+}
+
+// Fight a player's board against the wave (deterministic for a given board and seed)
+export function runPveBattle(
+  playerBoard: BoardState,
+  playerId: string,
+  wave: PveWave,
+  matchId: string,
+  seed: number,
+  round: number
+): { pveBoard: BoardState; state: BattleState; result: BattleResult } {
+  const pveBoard = createPveBoard(wave, matchId);
+  const state = runBattle(
+    createBattleBoardFromTwo(playerBoard, playerId, pveBoard, PVE_PLAYER_ID),
+    seed
+  );
+  return {
+    pveBoard,
+    state,
+    result: calculateBattleResult(state, playerId, PVE_PLAYER_ID, round),
+  };
+}
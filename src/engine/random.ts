@@ -0,0 +1,34 @@
+// =============================================
+// Seedable Random Number Generator
+// =============================================
+
+// Plain-object RNG so it can be stored on BattleState and serialized
+export interface BattleRng {
+  seed: number;
+  state: number;
+}
+
+// Generate a fresh 32-bit seed (the only non-deterministic call in the engine)
+export function createBattleSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// Create an RNG positioned at the start of the stream for a seed
+export function createRng(seed: number): BattleRng {
+  const normalized = seed >>> 0;
+  return { seed: normalized, state: normalized };
+}
+
+// Next float in [0, 1) - mulberry32, advances rng.state in place
+export function nextRandom(rng: BattleRng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+// Random integer between min and max (inclusive)
+export function randomInt(rng: BattleRng, min: number, max: number): number {
+  return min + Math.floor(nextRandom(rng) * (max - min + 1));
+}
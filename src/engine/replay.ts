@@ -0,0 +1,182 @@
+import { BoardState, BattleEvent, BattleResult } from '../types';
+import { BATTLE_RULES_VERSION, initializeBattle } from './battle';
+import { createBattleBoardFromTwo, movePiece } from './board';
+import { setTerrain } from './terrain';
+import { getObstacle, setObstacle } from './obstacles';
+
+// =============================================
+// Battle Replays
+// A replay captures everything needed to watch a battle again without a
+// backend: both input boards, the seed, the rules version, every event and
+// the final result. Playback starts from the engine's own starting board and
+// rebuilds every later board purely from the event stream.
+// =============================================
+
+// Bump when the replay document shape changes
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayPlayer {
+  id: string;
+  board: BoardState; // The player's own board as it was submitted for the battle
+}
+
+export interface BattleReplay {
+  formatVersion: number;
+  rulesVersion: number;
+  id: string;
+  matchId: string;
+  createdAt: string;
+  seed: number;
+  player1: ReplayPlayer;
+  player2: ReplayPlayer;
+  events: BattleEvent[];
+  result: BattleResult;
+}
+
+export function createBattleReplay(
+  replay: Omit<BattleReplay, 'formatVersion' | 'rulesVersion' | 'createdAt'>
+): BattleReplay {
+  return {
+    formatVersion: REPLAY_FORMAT_VERSION,
+    rulesVersion: BATTLE_RULES_VERSION,
+    createdAt: new Date().toISOString(),
+    ...replay,
+  };
+}
+
+// Validate an untrusted replay document (e.g. an imported file)
+export function parseBattleReplay(data: unknown): BattleReplay {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay is not an object');
+  }
+
+  const replay = data as Partial<BattleReplay>;
+
+  if (replay.formatVersion !== REPLAY_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported replay format version: ${replay.formatVersion} (expected ${REPLAY_FORMAT_VERSION})`
+    );
+  }
+
+  if (
+    typeof replay.id !== 'string' ||
+    typeof replay.seed !== 'number' ||
+    typeof replay.rulesVersion !== 'number' ||
+    !replay.player1?.board ||
+    !replay.player2?.board ||
+    !Array.isArray(replay.events) ||
+    !replay.result
+  ) {
+    throw new Error('Replay is missing required fields');
+  }
+
+  return replay as BattleReplay;
+}
+
+// The battle board the replay starts from - the engine's own starting board, so terrain,
+// synergy bonuses and paratrooper drops match the battle that was fought
+export function getReplayInitialBoard(replay: BattleReplay): BoardState {
+  const board = createBattleBoardFromTwo(
+    replay.player1.board,
+    replay.player1.id,
+    replay.player2.board,
+    replay.player2.id
+  );
+  return initializeBattle(board, replay.seed).board;
+}
+
+// Apply a single battle event to a board
+export function applyReplayEvent(board: BoardState, event: BattleEvent): BoardState {
+  // Terrain and obstacle changes aren't tied to a piece that is still on the board
+  if (event.type === 'terrain_changed') {
+    return event.to && event.terrain ? setTerrain(board, event.to, event.terrain) : board;
+  }
+  if (event.type === 'obstacle_built') {
+    return event.to && event.obstacle ? setObstacle(board, event.to, event.obstacle) : board;
+  }
+  if (event.type === 'obstacle_hit') {
+    const obstacle = event.to ? getObstacle(board, event.to) : null;
+    if (!event.to || !obstacle) return board;
+    return setObstacle(board, event.to, { ...obstacle, hp: obstacle.hp - (event.damage ?? 0) });
+  }
+  if (event.type === 'obstacle_destroyed' || event.type === 'obstacle_expired') {
+    return event.to ? setObstacle(board, event.to, null) : board;
+  }
+
+  const piece = board.pieces[event.pieceId];
+  if (!piece) return board;
+
+  switch (event.type) {
+    case 'move':
+      return event.to ? movePiece(board, piece.id, event.to) : board;
+
+    case 'hit':
+      return {
+        ...board,
+        pieces: {
+          ...board.pieces,
+          [piece.id]: { ...piece, currentHp: Math.max(0, piece.currentHp - (event.damage ?? 0)) },
+        },
+      };
+
+    case 'heal': {
+      const patient = event.targetId ? board.pieces[event.targetId] : undefined;
+      if (!patient) return board;
+      const currentHp = Math.min(patient.maxHp, patient.currentHp + (event.healing ?? 0));
+      return {
+        ...board,
+        pieces: { ...board.pieces, [patient.id]: { ...patient, currentHp } },
+      };
+    }
+
+    case 'death':
+      return {
+        ...board,
+        pieces: { ...board.pieces, [piece.id]: { ...piece, currentHp: 0 } },
+      };
+
+    case 'status_applied':
+    case 'status_expired': {
+      const { status } = event;
+      if (!status) return board;
+      const others = (piece.statusEffects || []).filter(e => e.type !== status.type);
+      const statusEffects = event.type === 'status_applied' ? [...others, status] : others;
+      return {
+        ...board,
+        pieces: { ...board.pieces, [piece.id]: { ...piece, statusEffects } },
+      };
+    }
+
+    default:
+      // attack, strafe, bomb_dropped and dodge events don't change what the board shows
+      return board;
+  }
+}
+
+// Last engine turn that produced an event
+export function getReplayLastTurn(replay: BattleReplay): number {
+  return replay.events.reduce((last, event) => Math.max(last, event.turn), 0);
+}
+
+// Board at the end of every turn: frames[0] is the starting board, frames[n] is after turn n
+export function buildReplayFrames(replay: BattleReplay): BoardState[] {
+  const lastTurn = getReplayLastTurn(replay);
+  const frames: BoardState[] = [getReplayInitialBoard(replay)];
+  let board = frames[0];
+
+  // Setup events (turn 0, e.g. paratrooper drops) are already on the starting board
+  let eventIndex = 0;
+  while (eventIndex < replay.events.length && replay.events[eventIndex].turn <= 0) {
+    eventIndex++;
+  }
+
+  for (let turn = 1; turn <= lastTurn; turn++) {
+    while (eventIndex < replay.events.length && replay.events[eventIndex].turn <= turn) {
+      board = applyReplayEvent(board, replay.events[eventIndex]);
+      eventIndex++;
+    }
+    frames.push(board);
+  }
+
+  return frames;
+}
@@ -11,6 +11,10 @@ import {
 } from '../types';
 import { UNIT_DEFINITIONS, TRAIT_DEFINITIONS } from '../types/units';
 import { getShopOdds } from './economy';
+import { calculatePieceStats } from './upgrades';
+import { applyTraitStatEffects } from './traits';
+import { rollFaction } from './synergy';
+import { applyItemStatEffects, getItems, MAX_ITEMS_PER_PIECE } from './items';
 
 // =============================================
 // Shop System
@@ -21,13 +25,15 @@ const POOL_SIZES: Record<number, number> = {
   1: 30, // 30 copies of each 1-cost unit
   2: 22, // 22 copies of each 2-cost unit
   3: 16, // 16 copies of each 3-cost unit
+  4: 10, // 10 copies of each 4-cost unit
 };
 
 // Units by cost
 const UNITS_BY_COST: Record<number, UnitTypeId[]> = {
   1: ['infantry', 'engineer'],
-  2: ['armored_car', 'anti_air'],
-  3: ['tank', 'artillery', 'aircraft'],
+  2: ['armored_car', 'anti_air', 'medic', 'flamethrower', 'paratrooper'],
+  3: ['tank', 'artillery', 'aircraft', 'sniper'],
+  4: ['heavy_bomber'],
 };
 
 // Create the shared card pool for a match
@@ -110,6 +116,7 @@ export function generateShopCards(playerLevel: number, pool: Map<UnitTypeId, num
         typeId: unitTypeId,
         cost: def.cost,
         traits: generateTraits(unitTypeId),
+        faction: def.faction ?? rollFaction(),
         purchased: false,
       });
     }
@@ -118,6 +125,23 @@ export function generateShopCards(playerLevel: number, pool: Map<UnitTypeId, num
   return cards;
 }
 
+// Take a random unit of a cost tier from the pool, as a card - used for free units
+export function drawCardOfCost(cost: number, pool: Map<UnitTypeId, number>): ShopCard | null {
+  const unitTypeId = pickUnitFromTier(cost, pool);
+  if (!unitTypeId) return null;
+
+  pool.set(unitTypeId, (pool.get(unitTypeId) || 0) - 1);
+  const def = UNIT_DEFINITIONS[unitTypeId];
+  return {
+    index: 0,
+    typeId: unitTypeId,
+    cost: def.cost,
+    traits: generateTraits(unitTypeId),
+    faction: def.faction ?? rollFaction(),
+    purchased: true,
+  };
+}
+
 // Create initial shop state
 export function createShopState(playerLevel: number, pool: Map<UnitTypeId, number>): ShopState {
   return {
@@ -176,7 +200,7 @@ export function purchaseCard(
 
 // Create a piece from a purchased card
 export function createPieceFromCard(card: ShopCard, ownerId: string, matchId: string): Piece {
-  const def = UNIT_DEFINITIONS[card.typeId];
+  const stats = applyTraitStatEffects(calculatePieceStats(card.typeId, 1), card.traits);
 
   return {
     id: uuidv4(),
@@ -184,20 +208,15 @@ export function createPieceFromCard(card: ShopCard, ownerId: string, matchId: st
     ownerId,
     matchId,
     level: 1,
-    currentHp: def.baseHp,
-    maxHp: def.baseHp,
-    attack: Math.floor((def.baseAttackMin + def.baseAttackMax) / 2),
-    attackMin: def.baseAttackMin,
-    attackMax: def.baseAttackMax,
-    defense: def.baseDefense,
-    speed: def.baseSpeed,
-    range: def.baseRange,
+    currentHp: stats.maxHp,
+    ...stats,
     position: null,
     isOnBoard: false,
     benchSlot: null,
     status: 'idle',
     facingUp: true,
     traits: card.traits,
+    faction: card.faction,
   };
 }
 
@@ -211,12 +230,6 @@ export function canMerge(pieces: Piece[]): boolean {
   );
 }
 
-// Star upgrade bonuses (simplified - each star adds percentage)
-const STAR_BONUS = {
-  2: { hp: 1.5, attack: 1.3, defense: 1.2 },
-  3: { hp: 2.0, attack: 1.6, defense: 1.5 },
-};
-
 // Merge three pieces into higher star
 export function mergePieces(pieces: Piece[]): Piece {
   if (!canMerge(pieces)) {
@@ -225,10 +238,6 @@ export function mergePieces(pieces: Piece[]): Piece {
 
   const [base] = pieces;
   const newLevel = base.level + 1;
-  const def = UNIT_DEFINITIONS[base.typeId];
-
-  // Calculate upgraded stats using multiplier
-  const bonus = STAR_BONUS[newLevel as 2 | 3] || STAR_BONUS[2];
 
   // Merge traits (keep highest level, cap at star level)
   const mergedTraits = new Map<TraitId, number>();
@@ -243,21 +252,23 @@ export function mergePieces(pieces: Piece[]): Piece {
     .slice(0, newLevel) // Limit traits to star level
     .map(([traitId, level]) => ({ traitId, level }));
 
-  // Calculate new stats with bonuses
-  const newHp = Math.floor(def.baseHp * bonus.hp);
+  // Items carry over up to the per-piece limit - see getMergeOverflowItems for the rest
+  const items = pieces.flatMap(getItems).slice(0, MAX_ITEMS_PER_PIECE);
+
+  // Stats for the new star level come from the STAR_UPGRADES table, then traits and items
+  const stats = applyItemStatEffects(
+    applyTraitStatEffects(calculatePieceStats(base.typeId, newLevel), traits),
+    items
+  );
 
   return {
     ...base,
     id: uuidv4(),
     level: newLevel,
-    maxHp: newHp,
-    currentHp: newHp,
-    attackMin: Math.floor(def.baseAttackMin * bonus.attack),
-    attackMax: Math.floor(def.baseAttackMax * bonus.attack),
-    defense: Math.floor(def.baseDefense * bonus.defense),
-    speed: def.baseSpeed,
-    range: def.baseRange,
+    currentHp: stats.maxHp,
+    ...stats,
     traits,
+    items,
     status: 'idle',
   };
 }
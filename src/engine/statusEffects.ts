@@ -0,0 +1,105 @@
+import { Piece, StatusEffect, StatusEffectType, StatusStacking } from '../types';
+import { UNIT_DEFINITIONS } from '../types/units';
+
+// =============================================
+// Status Effects
+// Lasting battle effects on pieces. Durations count battle turns and are
+// ticked down once per turn by the battle engine.
+// =============================================
+
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  duration: number; // Battle turns
+  stacking: StatusStacking;
+  maxStacks: number;
+}
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+  stun: { type: 'stun', duration: 10, stacking: 'ignore', maxStacks: 1 },
+  suppression: { type: 'suppression', duration: 30, stacking: 'stack', maxStacks: 2 },
+  burning: { type: 'burning', duration: 30, stacking: 'stack', maxStacks: 3 },
+  pinned: { type: 'pinned', duration: 20, stacking: 'refresh', maxStacks: 1 },
+};
+
+// Burning deals its stacks as damage every this many turns
+export const BURNING_TICK_INTERVAL = 10;
+
+export function getStatusEffect(piece: Piece, type: StatusEffectType): StatusEffect | undefined {
+  return piece.statusEffects?.find(e => e.type === type && e.remainingTurns > 0);
+}
+
+export function hasStatusEffect(piece: Piece, type: StatusEffectType): boolean {
+  return !!getStatusEffect(piece, type);
+}
+
+// Apply an effect following its stacking rule - returns the resulting effect, or null if unchanged
+export function applyStatusEffect(
+  piece: Piece,
+  type: StatusEffectType,
+  sourceId: string
+): { piece: Piece; effect: StatusEffect | null } {
+  const def = STATUS_EFFECT_DEFINITIONS[type];
+  const existing = getStatusEffect(piece, type);
+  const others = (piece.statusEffects || []).filter(e => e.type !== type);
+
+  if (existing && def.stacking === 'ignore') {
+    return { piece, effect: null };
+  }
+
+  const stacks =
+    existing && def.stacking === 'stack' ? Math.min(def.maxStacks, existing.stacks + 1) : 1;
+  const effect: StatusEffect = { type, remainingTurns: def.duration, stacks, sourceId };
+
+  return { piece: { ...piece, statusEffects: [...others, effect] }, effect };
+}
+
+// Tick all effects down one turn - returns the updated piece and the effects that ran out
+export function tickStatusEffects(piece: Piece): { piece: Piece; expired: StatusEffect[] } {
+  if (!piece.statusEffects || piece.statusEffects.length === 0) {
+    return { piece, expired: [] };
+  }
+
+  const active: StatusEffect[] = [];
+  const expired: StatusEffect[] = [];
+
+  for (const effect of piece.statusEffects) {
+    const ticked = { ...effect, remainingTurns: effect.remainingTurns - 1 };
+    if (ticked.remainingTurns > 0) {
+      active.push(ticked);
+    } else {
+      expired.push(ticked);
+    }
+  }
+
+  return { piece: { ...piece, statusEffects: active }, expired };
+}
+
+// Which effects a hit applies to its target
+export function getOnHitStatusEffects(attacker: Piece, defender: Piece): StatusEffectType[] {
+  const effects: StatusEffectType[] = [];
+
+  // Artillery barrages suppress whatever they hit
+  if (attacker.typeId === 'artillery') {
+    effects.push('suppression');
+  }
+
+  // Flamethrowers set whatever they hit on fire
+  if (attacker.typeId === 'flamethrower') {
+    effects.push('burning');
+  }
+
+  // Heavy bomber bombs leave whatever survives the blast stunned
+  if (attacker.typeId === 'heavy_bomber') {
+    effects.push('stun');
+  }
+
+  // Tanks pin infantry in place
+  if (
+    attacker.typeId === 'tank' &&
+    UNIT_DEFINITIONS[defender.typeId]?.traits.includes('infantry')
+  ) {
+    effects.push('pinned');
+  }
+
+  return effects;
+}
@@ -0,0 +1,90 @@
+import { BoardState, Piece, Position } from '../types';
+import { isValidPosition, isPositionOccupied, getDistance } from './board';
+import { getPieceModifiers } from './upgrades';
+
+// =============================================
+// Strafing Runs
+// Aircraft attack by flying a straight line through their target, hitting
+// every enemy under the line (and the lines either side at higher stars), and
+// pull out of the run at its far end.
+// =============================================
+
+// Tiles along the line a 1-star aircraft strafes - one more for every star above that
+export const STRAFE_BASE_LENGTH = 3;
+
+export interface StrafeRun {
+  start: Position; // First tile of the line
+  end: Position; // Last tile of the line
+  width: number; // Extra lines on each side
+  tiles: Position[]; // Every tile hit, side lines included
+  exit: Position | null; // Where the aircraft pulls out, null if it stays put
+}
+
+function addPositions(a: Position, b: Position, times: number = 1): Position {
+  return { x: a.x + b.x * times, y: a.y + b.y * times };
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+// Plan a strafing run through the target: the aircraft flies along whichever axis the target
+// is further away on (the forward axis on a tie), joining the target's line level with itself
+export function planStrafeRun(
+  board: BoardState,
+  aircraft: Piece,
+  aircraftPos: Position,
+  targetPos: Position
+): StrafeRun {
+  const modifiers = getPieceModifiers(aircraft);
+  const width = modifiers.sweepWidth;
+
+  const dx = targetPos.x - aircraftPos.x;
+  const dy = targetPos.y - aircraftPos.y;
+  const vertical = Math.abs(dy) >= Math.abs(dx);
+  const direction = vertical ? { x: 0, y: Math.sign(dy) } : { x: Math.sign(dx), y: 0 };
+  const side = vertical ? { x: 1, y: 0 } : { x: 0, y: 1 };
+
+  let start = vertical
+    ? { x: targetPos.x, y: aircraftPos.y }
+    : { x: aircraftPos.x, y: targetPos.y };
+  if (samePosition(start, aircraftPos)) {
+    start = addPositions(start, direction);
+  }
+
+  // The line always reaches the target, however far into range it is
+  const length = Math.max(
+    STRAFE_BASE_LENGTH + aircraft.level - 1,
+    getDistance(start, targetPos) + 1
+  );
+
+  const line: Position[] = [];
+  for (let i = 0; i < length; i++) {
+    const pos = addPositions(start, direction, i);
+    if (!isValidPosition(pos, board)) break;
+    line.push(pos);
+  }
+
+  const tiles: Position[] = [];
+  for (const pos of line) {
+    for (let offset = -width; offset <= width; offset++) {
+      const tile = addPositions(pos, side, offset);
+      if (isValidPosition(tile, board) && !samePosition(tile, aircraftPos)) {
+        tiles.push(tile);
+      }
+    }
+  }
+
+  // Pull out just past the line, or at the furthest free tile on it
+  const exit = [addPositions(start, direction, line.length), ...[...line].reverse()].find(
+    pos => isValidPosition(pos, board) && !isPositionOccupied(pos, board)
+  );
+
+  return {
+    start: line[0],
+    end: line[line.length - 1],
+    width,
+    tiles,
+    exit: exit ?? null,
+  };
+}
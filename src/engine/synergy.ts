@@ -1,19 +1,167 @@
-import { Piece, ActiveSynergy, TraitType } from '../types';
-import { UNIT_DEFINITIONS, SYNERGY_DEFINITIONS } from '../types/units';
+import {
+  Piece,
+  ActiveSynergy,
+  BoardState,
+  FactionId,
+  Synergy,
+  SynergyEffect,
+  SynergyTrait,
+} from '../types';
+import { UNIT_DEFINITIONS, SYNERGY_DEFINITIONS, FACTION_DEFINITIONS } from '../types/units';
+import { BattleRng, nextRandom } from './random';
 
 // =============================================
 // Synergy System
+// Pieces count towards synergies through their unit traits and, on a second
+// axis, through their faction.
 // =============================================
 
-// Count traits from a list of pieces
-export function countTraits(pieces: Piece[]): Map<TraitType, number> {
-  const counts = new Map<TraitType, number>();
+// ===== Faction Synergies =====
 
-  for (const piece of pieces) {
-    const def = UNIT_DEFINITIONS[piece.typeId];
-    if (!def) continue;
+export const FACTION_SYNERGY_DEFINITIONS: Synergy[] = [
+  {
+    synergyId: 'us_synergy',
+    name: 'United States',
+    traitType: 'us',
+    tiers: [
+      { count: 2, effect: { stat: 'attack', value: 1 }, description: 'US x2: US units +1 attack' },
+      { count: 4, effect: { stat: 'attack', value: 2 }, description: 'US x4: US units +2 attack' },
+      { count: 6, effect: { stat: 'attack', value: 3 }, description: 'US x6: US units +3 attack' },
+    ],
+  },
+  {
+    synergyId: 'uk_synergy',
+    name: 'United Kingdom',
+    traitType: 'uk',
+    tiers: [
+      {
+        count: 2,
+        effect: { stat: 'defense', value: 1 },
+        description: 'UK x2: UK units +1 defense',
+      },
+      {
+        count: 4,
+        effect: { stat: 'defense', value: 2 },
+        description: 'UK x4: UK units +2 defense',
+      },
+      {
+        count: 6,
+        effect: { stat: 'defense', value: 3 },
+        description: 'UK x6: UK units +3 defense',
+      },
+    ],
+  },
+  {
+    synergyId: 'ussr_synergy',
+    name: 'Soviet Union',
+    traitType: 'ussr',
+    tiers: [
+      {
+        count: 2,
+        effect: { stat: 'maxHp', value: 2 },
+        description: 'USSR x2: USSR units +2 max HP',
+      },
+      {
+        count: 4,
+        effect: { stat: 'maxHp', value: 4 },
+        description: 'USSR x4: USSR units +4 max HP',
+      },
+      {
+        count: 6,
+        effect: { stat: 'maxHp', value: 6 },
+        description: 'USSR x6: USSR units +6 max HP',
+      },
+    ],
+  },
+  {
+    synergyId: 'germany_synergy',
+    name: 'Germany',
+    traitType: 'germany',
+    tiers: [
+      {
+        count: 2,
+        effect: { special: 'faction_blitz', value: 0.2 },
+        description: 'Germany x2: German units +20% chance to attack again',
+      },
+      {
+        count: 4,
+        effect: { special: 'faction_blitz', value: 0.35 },
+        description: 'Germany x4: German units +35% chance to attack again',
+      },
+      {
+        count: 6,
+        effect: { special: 'faction_blitz', value: 0.5 },
+        description: 'Germany x6: German units +50% chance to attack again',
+      },
+    ],
+  },
+  {
+    synergyId: 'japan_synergy',
+    name: 'Japan',
+    traitType: 'japan',
+    tiers: [
+      {
+        count: 2,
+        effect: { stat: 'speed', value: 1 },
+        description: 'Japan x2: Japanese units +1 speed',
+      },
+      {
+        count: 4,
+        effect: { stat: 'speed', value: 2 },
+        description: 'Japan x4: Japanese units +2 speed',
+      },
+      {
+        count: 6,
+        effect: { stat: 'speed', value: 3 },
+        description: 'Japan x6: Japanese units +3 speed',
+      },
+    ],
+  },
+];
+
+// Trait synergies first, then faction synergies
+const ALL_SYNERGY_DEFINITIONS: Synergy[] = [...SYNERGY_DEFINITIONS, ...FACTION_SYNERGY_DEFINITIONS];
+
+const FACTION_IDS = Object.keys(FACTION_DEFINITIONS) as FactionId[];
+
+export function isFaction(trait: SynergyTrait): trait is FactionId {
+  return trait in FACTION_DEFINITIONS;
+}
+
+// Roll a faction for a shop card. Shop rolls happen between battles and are never replayed -
+// battles only read the faction already on the piece - so the shop defaults to Math.random;
+// pass a seeded rng to make the roll reproducible
+export function rollFaction(rng?: BattleRng): FactionId {
+  const roll = rng ? nextRandom(rng) : Math.random();
+  return FACTION_IDS[Math.floor(roll * FACTION_IDS.length)];
+}
+
+// Everything a piece counts towards: its unit traits, plus its faction
+export function getSynergyTraits(piece: Pick<Piece, 'typeId' | 'faction'>): SynergyTrait[] {
+  const traits: SynergyTrait[] = [...(UNIT_DEFINITIONS[piece.typeId]?.traits ?? [])];
+  if (piece.faction) {
+    traits.push(piece.faction);
+  }
+  return traits;
+}
+
+// Breakpoints a count reaches (0 = none)
+export function getSynergyTier(synergy: Synergy, count: number): number {
+  return synergy.tiers.filter(tier => count >= tier.count).length;
+}
+
+// Effect of the highest breakpoint an active synergy has reached
+function getActiveEffect(synergy: ActiveSynergy): SynergyEffect | null {
+  const synergyDef = ALL_SYNERGY_DEFINITIONS.find(s => s.synergyId === synergy.synergyId);
+  return (synergy.tier > 0 && synergyDef?.tiers[synergy.tier - 1]?.effect) || null;
+}
 
-    for (const trait of def.traits) {
+// Count traits and factions from a list of pieces
+export function countTraits(pieces: Piece[]): Map<SynergyTrait, number> {
+  const counts = new Map<SynergyTrait, number>();
+
+  for (const piece of pieces) {
+    for (const trait of getSynergyTraits(piece)) {
       const current = counts.get(trait) || 0;
       counts.set(trait, current + 1);
     }
@@ -27,12 +175,14 @@ export function calculateSynergies(pieces: Piece[]): ActiveSynergy[] {
   const traitCounts = countTraits(pieces);
   const activeSynergies: ActiveSynergy[] = [];
 
-  for (const synergy of SYNERGY_DEFINITIONS) {
+  for (const synergy of ALL_SYNERGY_DEFINITIONS) {
     const count = traitCounts.get(synergy.traitType) || 0;
+    const tier = getSynergyTier(synergy, count);
     activeSynergies.push({
       synergyId: synergy.synergyId,
       count,
-      isActive: count >= synergy.triggerCount,
+      tier,
+      isActive: tier > 0,
     });
   }
 
@@ -46,60 +196,134 @@ export function applySynergyBonuses(pieces: Piece[], synergies: ActiveSynergy[])
   for (const synergy of synergies) {
     if (!synergy.isActive) continue;
 
-    const synergyDef = SYNERGY_DEFINITIONS.find(s => s.synergyId === synergy.synergyId);
-    if (!synergyDef) continue;
+    const synergyDef = ALL_SYNERGY_DEFINITIONS.find(s => s.synergyId === synergy.synergyId);
+    const effect = getActiveEffect(synergy);
+    if (!synergyDef || !effect) continue;
 
     // Apply effects to matching pieces
     for (const piece of modifiedPieces) {
-      const unitDef = UNIT_DEFINITIONS[piece.typeId];
-      if (!unitDef || !unitDef.traits.includes(synergyDef.traitType)) continue;
+      if (!getSynergyTraits(piece).includes(synergyDef.traitType)) continue;
 
       // Apply stat bonuses
-      if (synergyDef.effect.stat && synergyDef.effect.value) {
-        switch (synergyDef.effect.stat) {
+      if (effect.stat && effect.value) {
+        switch (effect.stat) {
           case 'defense':
-            piece.defense += synergyDef.effect.value;
+            piece.defense += effect.value;
             break;
           case 'speed':
-            piece.speed += synergyDef.effect.value;
+            piece.speed += effect.value;
             break;
           case 'attack':
-            piece.attackMin += synergyDef.effect.value;
-            piece.attackMax += synergyDef.effect.value;
+            piece.attackMin += effect.value;
+            piece.attackMax += effect.value;
+            break;
+          case 'maxHp':
+            piece.maxHp += effect.value;
+            piece.currentHp += effect.value;
             break;
         }
       }
 
-      // Handle special effects (these are tracked and applied during battle)
-      // - fortification_buff: Engineer synergy enhances fortifications
-      // - dodge_chance_25: Air synergy gives dodge chance
+      // Special effects are carried on BattleState and applied during the battle,
+      // scaled by the tier's value
+      // - fortification_buff: Engineer synergy adds armor and HP to obstacles
+      // - dodge_chance: Air synergy gives dodge chance
+      // - heal_buff: Medic synergy makes every heal restore more HP
+      // - faction_blitz: German synergy gives German units a blitz chance
     }
   }
 
   return modifiedPieces;
 }
 
-// Check if a synergy would activate with additional piece
+// ===== Battle Synergies =====
+
+// Active synergies of each side in a battle, keyed by owner id
+export type BattleSynergies = Record<string, ActiveSynergy[]>;
+
+// Calculate each owner's synergies from the pieces they bring into battle
+export function calculateBattleSynergies(board: BoardState): BattleSynergies {
+  const piecesByOwner = new Map<string, Piece[]>();
+
+  for (const piece of Object.values(board.pieces)) {
+    if (piece.currentHp <= 0) continue;
+    const owned = piecesByOwner.get(piece.ownerId) || [];
+    owned.push(piece);
+    piecesByOwner.set(piece.ownerId, owned);
+  }
+
+  const synergies: BattleSynergies = {};
+  for (const [ownerId, pieces] of piecesByOwner) {
+    synergies[ownerId] = calculateSynergies(pieces);
+  }
+
+  return synergies;
+}
+
+// Apply each side's synergy stat bonuses to its pieces on the battle board
+export function applyBattleSynergyBonuses(
+  board: BoardState,
+  synergies: BattleSynergies
+): BoardState {
+  const pieces = { ...board.pieces };
+
+  for (const [ownerId, ownerSynergies] of Object.entries(synergies)) {
+    const owned = Object.values(pieces).filter(p => p.ownerId === ownerId);
+    for (const piece of applySynergyBonuses(owned, ownerSynergies)) {
+      pieces[piece.id] = piece;
+    }
+  }
+
+  return { ...board, pieces };
+}
+
+// Check whether an owner has an active synergy with the given special effect
+export function hasSynergySpecial(
+  synergies: BattleSynergies,
+  ownerId: string,
+  special: string
+): boolean {
+  return getSynergySpecialValue(synergies, ownerId, special) > 0;
+}
+
+// Value of the special effect at the owner's active tier (0 if the synergy isn't active)
+export function getSynergySpecialValue(
+  synergies: BattleSynergies,
+  ownerId: string,
+  special: string
+): number {
+  for (const synergy of synergies[ownerId] || []) {
+    const effect = getActiveEffect(synergy);
+    if (effect?.special === special) {
+      return effect.value ?? 0;
+    }
+  }
+  return 0;
+}
+
+// Check if an additional piece would activate a synergy or reach its next breakpoint,
+// counting its faction as well as its unit traits
 export function wouldActivateSynergy(
   currentPieces: Piece[],
-  newPieceTypeId: string
-): { synergyId: string; name: string } | null {
-  const newUnitDef = UNIT_DEFINITIONS[newPieceTypeId];
-  if (!newUnitDef) return null;
-
+  newPiece: Pick<Piece, 'typeId' | 'faction'>
+): { synergyId: string; name: string; tier: number } | null {
   const currentCounts = countTraits(currentPieces);
 
-  for (const trait of newUnitDef.traits) {
+  for (const trait of getSynergyTraits(newPiece)) {
     const currentCount = currentCounts.get(trait) || 0;
     const newCount = currentCount + 1;
 
-    // Check if this would trigger a synergy
-    const synergy = SYNERGY_DEFINITIONS.find(
-      s => s.traitType === trait && currentCount < s.triggerCount && newCount >= s.triggerCount
+    // Check if this would reach a new breakpoint
+    const synergy = ALL_SYNERGY_DEFINITIONS.find(
+      s => s.traitType === trait && getSynergyTier(s, newCount) > getSynergyTier(s, currentCount)
     );
 
     if (synergy) {
-      return { synergyId: synergy.synergyId, name: synergy.name };
+      return {
+        synergyId: synergy.synergyId,
+        name: synergy.name,
+        tier: getSynergyTier(synergy, newCount),
+      };
     }
   }
 
@@ -111,27 +335,36 @@ export interface SynergyProgress {
   synergyId: string;
   name: string;
   description: string;
-  traitType: TraitType;
+  traitType: SynergyTrait;
   currentCount: number;
-  triggerCount: number;
+  tier: number; // Breakpoints reached (0 = inactive)
+  breakpoints: number[];
+  nextCount: number | null; // Count for the next breakpoint (null once maxed)
   isActive: boolean;
 }
 
 export function getSynergyProgress(pieces: Piece[]): SynergyProgress[] {
   const traitCounts = countTraits(pieces);
 
-  return SYNERGY_DEFINITIONS.map(synergy => ({
-    synergyId: synergy.synergyId,
-    name: synergy.name,
-    description: synergy.description,
-    traitType: synergy.traitType,
-    currentCount: traitCounts.get(synergy.traitType) || 0,
-    triggerCount: synergy.triggerCount,
-    isActive: (traitCounts.get(synergy.traitType) || 0) >= synergy.triggerCount,
-  }));
+  return ALL_SYNERGY_DEFINITIONS.map(synergy => {
+    const currentCount = traitCounts.get(synergy.traitType) || 0;
+    const tier = getSynergyTier(synergy, currentCount);
+    return {
+      synergyId: synergy.synergyId,
+      name: synergy.name,
+      // Current tier's effect, or the first tier's while still inactive
+      description: synergy.tiers[Math.max(0, tier - 1)].description,
+      traitType: synergy.traitType,
+      currentCount,
+      tier,
+      breakpoints: synergy.tiers.map(t => t.count),
+      nextCount: synergy.tiers[tier]?.count ?? null,
+      isActive: tier > 0,
+    };
+  });
 }
 
-// Get potential synergies that could be activated
+// Get potential synergies that could be activated or reach their next breakpoint
 export function getPotentialSynergies(
   pieces: Piece[],
   availableUnits: string[]
@@ -139,16 +372,20 @@ export function getPotentialSynergies(
   const traitCounts = countTraits(pieces);
   const potentials: { synergyId: string; name: string; unitsNeeded: string[] }[] = [];
 
-  for (const synergy of SYNERGY_DEFINITIONS) {
+  for (const synergy of ALL_SYNERGY_DEFINITIONS) {
     const currentCount = traitCounts.get(synergy.traitType) || 0;
-    if (currentCount >= synergy.triggerCount) continue; // Already active
+    const nextTier = synergy.tiers[getSynergyTier(synergy, currentCount)];
+    if (!nextTier) continue; // Already at the top breakpoint
 
-    const needed = synergy.triggerCount - currentCount;
+    const needed = nextTier.count - currentCount;
 
-    // Find units that can contribute to this synergy
+    // Find units that can contribute to this synergy - rolled factions aren't known yet
     const contributingUnits = availableUnits.filter(unitId => {
       const def = UNIT_DEFINITIONS[unitId];
-      return def && def.traits.includes(synergy.traitType);
+      return (
+        def &&
+        getSynergyTraits({ typeId: def.typeId, faction: def.faction }).includes(synergy.traitType)
+      );
     });
 
     if (contributingUnits.length >= needed) {
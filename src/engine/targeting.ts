@@ -0,0 +1,169 @@
+import { BoardState, Piece, Position, TargetingPolicy } from '../types';
+import { UNIT_DEFINITIONS } from '../types/units';
+import { getDistance, getPieceAtPosition, getRadiusAoePositions } from './board';
+import { getPieceModifiers } from './upgrades';
+import { getMovementProfile } from './terrain';
+
+// =============================================
+// Targeting
+// Each unit type picks its target with the policy declared on its
+// UnitDefinition. Ties always go to the nearest enemy, then board order.
+// Healers pick among injured allies instead of enemies.
+// =============================================
+
+// Units whose weapons can't reach air units
+const GROUND_ONLY_ATTACKERS: readonly string[] = ['artillery', 'flamethrower', 'heavy_bomber'];
+
+export interface TargetCandidate {
+  piece: Piece;
+  position: Position;
+  distance: number;
+}
+
+// Check if attacker can attack defender (type restrictions)
+export function canAttack(attacker: Piece, defender: Piece): boolean {
+  // Artillery, flamethrowers and bombers cannot attack air units
+  if (GROUND_ONLY_ATTACKERS.includes(attacker.typeId) && getMovementProfile(defender) === 'air') {
+    return false;
+  }
+
+  // Engineer and medic cannot attack
+  if (attacker.typeId === 'engineer' || isHealer(attacker)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Healers target allies instead of enemies
+export function isHealer(piece: Piece): boolean {
+  return piece.typeId === 'medic';
+}
+
+// Check if healer can heal patient - living, injured allies other than itself
+export function canHeal(healer: Piece, patient: Piece): boolean {
+  return (
+    patient.id !== healer.id &&
+    patient.ownerId === healer.ownerId &&
+    patient.currentHp > 0 &&
+    patient.currentHp < patient.maxHp
+  );
+}
+
+export function getTargetingPolicy(piece: Piece): TargetingPolicy {
+  return UNIT_DEFINITIONS[piece.typeId]?.targeting ?? 'nearest';
+}
+
+// Living enemies the piece is able to attack - injured allies for healers
+export function getTargetCandidates(
+  board: BoardState,
+  piece: Piece,
+  piecePos: Position
+): TargetCandidate[] {
+  const candidates: TargetCandidate[] = [];
+  const healer = isHealer(piece);
+
+  // Board order is tile order, which the tie-breaks depend on
+  for (const key in board.piecePositions) {
+    const other = board.pieces[board.piecePositions[key]];
+    // A piece on a tile always has its position set - see getPiecePosition
+    if (!other?.position || other.currentHp <= 0) {
+      continue;
+    }
+    if (
+      healer ? !canHeal(piece, other) : other.ownerId === piece.ownerId || !canAttack(piece, other)
+    ) {
+      continue;
+    }
+
+    candidates.push({
+      piece: other,
+      position: other.position,
+      distance: getDistance(piecePos, other.position),
+    });
+  }
+
+  return candidates;
+}
+
+// Number of enemies an AOE attack centred on this position would hit
+function countClusteredEnemies(board: BoardState, attacker: Piece, center: Position): number {
+  const positions = getRadiusAoePositions(center, board, getPieceModifiers(attacker).aoeRadius);
+  return positions.filter(pos => {
+    const other = getPieceAtPosition(pos, board);
+    return other && other.ownerId !== attacker.ownerId && other.currentHp > 0;
+  }).length;
+}
+
+// Higher score = preferred target under the policy
+function scoreTarget(
+  policy: TargetingPolicy,
+  board: BoardState,
+  attacker: Piece,
+  candidate: TargetCandidate
+): number {
+  switch (policy) {
+    case 'lowest_hp':
+      return -candidate.piece.currentHp;
+    case 'highest_threat':
+      // Expected damage per attack
+      return (candidate.piece.attackMin + candidate.piece.attackMax) / 2;
+    case 'furthest_back':
+      // Deepest into the enemy side - attackers facing up advance towards y = 0
+      return attacker.facingUp ? -candidate.position.y : candidate.position.y;
+    case 'prefer_aircraft':
+      return getMovementProfile(candidate.piece) === 'air' ? 1 : 0;
+    case 'clustered':
+      return countClusteredEnemies(board, attacker, candidate.position);
+    case 'most_injured':
+      return candidate.piece.maxHp - candidate.piece.currentHp;
+    case 'nearest':
+    default:
+      return 0;
+  }
+}
+
+// Pick the best candidate for the piece's policy
+function selectTarget(
+  board: BoardState,
+  piece: Piece,
+  candidates: TargetCandidate[]
+): TargetCandidate | null {
+  const policy = getTargetingPolicy(piece);
+  let best: { candidate: TargetCandidate; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const score = scoreTarget(policy, board, piece, candidate);
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && candidate.distance < best.candidate.distance)
+    ) {
+      best = { candidate, score };
+    }
+  }
+
+  return best ? best.candidate : null;
+}
+
+// Enemy to advance towards when nothing is in range
+export function findTargetToApproach(
+  board: BoardState,
+  piece: Piece,
+  piecePos: Position,
+  candidates: TargetCandidate[] = getTargetCandidates(board, piece, piecePos)
+): TargetCandidate | null {
+  return selectTarget(board, piece, candidates);
+}
+
+// Enemy to attack among those within attack range
+export function findEnemyInRange(
+  board: BoardState,
+  piece: Piece,
+  piecePos: Position,
+  attackRange: number,
+  candidates: TargetCandidate[] = getTargetCandidates(board, piece, piecePos)
+): { piece: Piece; position: Position } | null {
+  const inRange = candidates.filter(c => c.distance <= attackRange);
+  return selectTarget(board, piece, inRange);
+}
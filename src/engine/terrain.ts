@@ -0,0 +1,214 @@
+import { BoardState, Piece, Position, TerrainType } from '../types';
+import { UNIT_DEFINITIONS } from '../types/units';
+import { positionToKey } from './board';
+import { BattleRng, createRng, randomInt } from './random';
+
+// =============================================
+// Terrain
+// Battle board tiles can carry terrain that changes movement and defense for
+// ground units. Aircraft fly over all of it. The layout is rolled from the
+// battle seed, so every battle gets its own map and replays can rebuild it.
+// =============================================
+
+export interface TerrainDefinition {
+  type: TerrainType;
+  name: string;
+  moveCost: number; // Pathfinding weight for ground units entering the tile
+  blocksVehicles: boolean;
+  infantryDefense: number; // Extra defense for foot units standing on the tile
+  rangedCover: number; // Extra defense for ground units against ranged attacks (range > 1)
+}
+
+export const TERRAIN_DEFINITIONS: Record<TerrainType, TerrainDefinition> = {
+  plain: {
+    type: 'plain',
+    name: 'Plain',
+    moveCost: 1,
+    blocksVehicles: false,
+    infantryDefense: 0,
+    rangedCover: 0,
+  },
+  forest: {
+    type: 'forest',
+    name: 'Forest',
+    moveCost: 2,
+    blocksVehicles: false,
+    infantryDefense: 0,
+    rangedCover: 1,
+  },
+  river: {
+    type: 'river',
+    name: 'River',
+    moveCost: 2,
+    blocksVehicles: true,
+    infantryDefense: 0,
+    rangedCover: 0,
+  },
+  trench: {
+    type: 'trench',
+    name: 'Trench',
+    moveCost: 1,
+    blocksVehicles: false,
+    infantryDefense: 1,
+    rangedCover: 0,
+  },
+  crater: {
+    type: 'crater',
+    name: 'Crater',
+    moveCost: 2,
+    blocksVehicles: false,
+    infantryDefense: 1,
+    rangedCover: 0,
+  },
+};
+
+// Number of each feature rolled on each half of the board (mirrored onto the other half)
+const FOREST_TILES_PER_SIDE = 2;
+const TRENCH_TILES_PER_SIDE = 1;
+const RIVER_LENGTH = 2;
+
+// Keeps the terrain stream independent from the combat stream of the same seed
+const TERRAIN_SEED_SALT = 0x7e77a1;
+
+export function getTerrain(board: BoardState, pos: Position): TerrainType {
+  return board.terrain?.[positionToKey(pos)] ?? 'plain';
+}
+
+export function setTerrain(board: BoardState, pos: Position, terrain: TerrainType): BoardState {
+  return { ...board, terrain: { ...board.terrain, [positionToKey(pos)]: terrain } };
+}
+
+function isAirPiece(piece: Piece): boolean {
+  return UNIT_DEFINITIONS[piece.typeId]?.isAirUnit ?? false;
+}
+
+// Armor and gun units - blocked by rivers
+export function isVehicle(piece: Piece): boolean {
+  const def = UNIT_DEFINITIONS[piece.typeId];
+  if (!def || def.isAirUnit) return false;
+  return def.traits.includes('armor') || def.traits.includes('artillery');
+}
+
+// Ground units that are not vehicles - get the infantry defense bonus
+function isFootUnit(piece: Piece): boolean {
+  return !isAirPiece(piece) && !isVehicle(piece);
+}
+
+// How a piece crosses terrain - pieces with the same profile pay the same move costs
+export type MovementProfile = 'air' | 'vehicle' | 'foot';
+
+export function getMovementProfile(piece: Piece): MovementProfile {
+  if (isAirPiece(piece)) return 'air';
+  return isVehicle(piece) ? 'vehicle' : 'foot';
+}
+
+// Pathfinding weight for a piece with the profile entering terrain of the type (0 = impassable)
+export function getTerrainTypeMoveCost(terrain: TerrainType, profile: MovementProfile): number {
+  if (profile === 'air') return 1;
+
+  const def = TERRAIN_DEFINITIONS[terrain];
+  if (def.blocksVehicles && profile === 'vehicle') return 0;
+  return def.moveCost;
+}
+
+// Pathfinding weight for the piece entering the tile (0 = impassable)
+export function getTerrainMoveCost(board: BoardState, pos: Position, piece: Piece): number {
+  return getTerrainTypeMoveCost(getTerrain(board, pos), getMovementProfile(piece));
+}
+
+// Extra defense the defender gets from the tile it stands on
+export function getTerrainDefenseBonus(
+  board: BoardState,
+  defender: Piece,
+  defenderPos: Position,
+  attacker: Piece
+): number {
+  if (isAirPiece(defender)) return 0;
+
+  const def = TERRAIN_DEFINITIONS[getTerrain(board, defenderPos)];
+  let bonus = 0;
+
+  if (attacker.range > 1) {
+    bonus += def.rangedCover;
+  }
+  if (isFootUnit(defender)) {
+    bonus += def.infantryDefense;
+  }
+
+  return bonus;
+}
+
+// Artillery shelling turns open ground into craters
+export function getShelledTerrain(terrain: TerrainType): TerrainType | null {
+  return terrain === 'plain' ? 'crater' : null;
+}
+
+// Place a feature on a random free tile of the top half and its mirror on the bottom half
+function placeMirroredTiles(
+  board: BoardState,
+  terrain: Record<string, TerrainType>,
+  rng: BattleRng,
+  type: TerrainType,
+  row: number | null,
+  length: number
+): void {
+  const { width, height } = board.size;
+  const y = row ?? randomInt(rng, 0, Math.floor(height / 2) - 1);
+  const startX = randomInt(rng, 0, width - length);
+
+  for (let x = startX; x < startX + length; x++) {
+    const pos = { x, y };
+    const mirrored = { x: width - 1 - x, y: height - 1 - y };
+    const keys = [positionToKey(pos), positionToKey(mirrored)];
+
+    if (keys.some(key => terrain[key])) continue;
+    // Never drop a river under a vehicle that is already deployed there
+    if (
+      TERRAIN_DEFINITIONS[type].blocksVehicles &&
+      keys.some(key => {
+        const piece = board.pieces[board.piecePositions[key]];
+        return piece && isVehicle(piece);
+      })
+    ) {
+      continue;
+    }
+
+    for (const key of keys) {
+      terrain[key] = type;
+    }
+  }
+}
+
+// Roll a point-symmetric terrain layout for the battle board, so neither side is favoured
+export function generateTerrainLayout(
+  board: BoardState,
+  seed: number
+): Record<string, TerrainType> {
+  const rng = createRng(seed ^ TERRAIN_SEED_SALT);
+  const terrain: Record<string, TerrainType> = {};
+
+  // A short river stretch just in front of the top half, mirrored just in front of the bottom
+  placeMirroredTiles(
+    board,
+    terrain,
+    rng,
+    'river',
+    Math.floor(board.size.height / 2) - 1,
+    RIVER_LENGTH
+  );
+
+  for (let i = 0; i < FOREST_TILES_PER_SIDE; i++) {
+    placeMirroredTiles(board, terrain, rng, 'forest', null, 1);
+  }
+  for (let i = 0; i < TRENCH_TILES_PER_SIDE; i++) {
+    placeMirroredTiles(board, terrain, rng, 'trench', null, 1);
+  }
+
+  return terrain;
+}
+
+// Battle board with its terrain - always rolled from the seed, replacing any layout the board
+// arrived with, so whoever submits a board can't pick the map it is fought on
+export function applyBattleTerrain(board: BoardState, seed: number): BoardState {
+  return { ...board, terrain: generateTerrainLayout(board, seed) };
+}
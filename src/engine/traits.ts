@@ -0,0 +1,61 @@
+import { Piece, PieceTrait, UnitDefinition } from '../types';
+import { PieceStats } from './upgrades';
+
+// =============================================
+// Trait Effects
+// Stat traits (sniper, tenacity, heavy_cannon) change a piece's stats when it
+// is created or merged; combat traits are read by the battle engine.
+// =============================================
+
+export const BLITZ_CHANCE_PER_LEVEL = 0.3;
+
+// Apply stat-changing traits on top of a piece's star level stats
+export function applyTraitStatEffects(stats: PieceStats, traits: PieceTrait[]): PieceStats {
+  const result = { ...stats };
+
+  for (const trait of traits) {
+    switch (trait.traitId) {
+      case 'sniper':
+        // +1 range per star level
+        result.range += trait.level;
+        break;
+      case 'tenacity':
+        // +1 max HP per star level
+        result.maxHp += trait.level;
+        break;
+      case 'heavy_cannon':
+        // -1 speed per star level (min 0), the attack bonus is applied per hit
+        result.speed = Math.max(0, result.speed - trait.level);
+        break;
+    }
+  }
+
+  return result;
+}
+
+// Bonus damage from the attacker's traits against this defender
+export function getTraitDamageBonus(attacker: Piece, defenderDef: UnitDefinition): number {
+  let bonus = 0;
+
+  for (const trait of attacker.traits) {
+    switch (trait.traitId) {
+      case 'armor_pierce':
+        // Bonus damage vs armor units
+        if (defenderDef.traits.includes('armor')) {
+          bonus += trait.level;
+        }
+        break;
+      case 'heavy_cannon':
+        bonus += trait.level;
+        break;
+    }
+  }
+
+  return bonus;
+}
+
+// Chance for the piece to attack again after attacking
+export function getBlitzChance(piece: Piece): number {
+  const blitz = piece.traits.find(t => t.traitId === 'blitz');
+  return blitz ? BLITZ_CHANCE_PER_LEVEL * blitz.level : 0;
+}
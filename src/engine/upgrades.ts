@@ -0,0 +1,96 @@
+import {
+  Piece,
+  PieceModifiers,
+  StarUpgrade,
+  StarUpgradeSpecial,
+  UnitTypeId,
+  STAR_UPGRADES,
+} from '../types';
+import { UNIT_DEFINITIONS } from '../types/units';
+
+// =============================================
+// Star Upgrades
+// Piece stats for each star level, built from the unit definition plus
+// every STAR_UPGRADES step up to that level
+// =============================================
+
+export type PieceStats = Pick<
+  Piece,
+  'maxHp' | 'attack' | 'attackMin' | 'attackMax' | 'defense' | 'speed' | 'range'
+> & { modifiers: PieceModifiers };
+
+// Combat modifiers granted by each STAR_UPGRADES special
+const SPECIAL_MODIFIERS: Record<StarUpgradeSpecial, Partial<PieceModifiers>> = {
+  'aoe_radius+1': { aoeRadius: 1 },
+  'sweep_width+1': { sweepWidth: 1 },
+  'anti_air_damage+1': { antiAirDamage: 1 },
+  'fortification_armor+1_duration+1': { fortificationArmor: 1, fortificationDuration: 1 },
+  'heal+1': { healAmount: 1 },
+};
+
+export function createEmptyModifiers(): PieceModifiers {
+  return {
+    aoeRadius: 0,
+    sweepWidth: 0,
+    antiAirDamage: 0,
+    fortificationArmor: 0,
+    fortificationDuration: 0,
+    healAmount: 0,
+  };
+}
+
+// Upgrade steps a piece of this level has gone through (star2, then star3)
+export function getStarUpgrades(typeId: UnitTypeId, level: number): StarUpgrade[] {
+  const upgrades = STAR_UPGRADES[typeId];
+  if (!upgrades) return [];
+
+  const steps: StarUpgrade[] = [];
+  if (level >= 2) steps.push(upgrades.star2);
+  if (level >= 3) steps.push(upgrades.star3);
+  return steps;
+}
+
+// Stats of a piece of the given type and star level
+export function calculatePieceStats(typeId: UnitTypeId, level: number): PieceStats {
+  const def = UNIT_DEFINITIONS[typeId];
+  const modifiers = createEmptyModifiers();
+
+  let maxHp = def.baseHp;
+  let attackMin = def.baseAttackMin;
+  let attackMax = def.baseAttackMax;
+  let defense = def.baseDefense;
+  let speed = def.baseSpeed;
+  let range = def.baseRange;
+
+  for (const upgrade of getStarUpgrades(typeId, level)) {
+    maxHp += upgrade.hpBonus;
+    attackMin += upgrade.attackMinBonus;
+    attackMax += upgrade.attackMaxBonus;
+    defense += upgrade.defenseBonus;
+    speed += upgrade.speedBonus;
+    range += upgrade.rangeBonus;
+
+    if (upgrade.special) {
+      const special = SPECIAL_MODIFIERS[upgrade.special];
+      for (const [key, value] of Object.entries(special) as [keyof PieceModifiers, number][]) {
+        modifiers[key] += value;
+      }
+    }
+  }
+
+  return {
+    maxHp,
+    attack: Math.floor((attackMin + attackMax) / 2),
+    attackMin,
+    attackMax,
+    defense,
+    speed,
+    range,
+    modifiers,
+  };
+}
+
+// Modifiers of a piece - pieces saved before modifiers existed fall back to their star level
+export function getPieceModifiers(piece: Piece): PieceModifiers {
+  return piece.modifiers ?? calculatePieceStats(piece.typeId, piece.level).modifiers;
+}
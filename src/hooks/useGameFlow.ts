@@ -3,8 +3,29 @@ import useGameStore from '../store/gameStore';
 import { realtimeService } from '../services/realtimeService';
 import { updateMatchPhase, getPlayerBoards, getMatchPlayers } from '../services/matchService';
 import insforge from '../services/insforge';
-import { Player, BoardState, BattleResult, Piece, BASE_INCOME, GamePhase } from '../types';
-import { applyBattleResultToBot, getBotIds, handlePhaseChangeForBots } from '../services/botService';
+import {
+  Player,
+  AugmentId,
+  BoardState,
+  BattleResult,
+  BattleEvent,
+  BASE_INCOME,
+  CommanderId,
+  GamePhase,
+} from '../types';
+import {
+  applyBattleResultToBot,
+  getBotIds,
+  handlePhaseChangeForBots,
+} from '../services/botService';
+import { BattleStepRequest, MAX_BATTLE_STEPS, TURNS_PER_STEP } from '../engine/battleStep';
+import { initializeBattle } from '../engine/battle';
+import { createBattleSeed } from '../engine/random';
+import { createBattleBoardFromTwo, createEmptyBoard } from '../engine/board';
+import { buildReplayFrames, createBattleReplay } from '../engine/replay';
+import { PveWave, PVE_PLAYER_ID, createPveOpponent, getPveWave, runPveBattle } from '../engine/pve';
+import { saveReplay } from '../services/replayService';
+import { v4 as uuidv4 } from 'uuid';
 
 // =============================================
 // Game Flow Hook - Manages game phases and battles
@@ -45,53 +66,11 @@ function generatePairings(alivePlayers: Player[]): { player1Id: string; player2I
   return pairings;
 }
 
-// Create battle board from two player boards
-function createBattleBoardFromTwo(
-  player1Board: BoardState,
-  player1Id: string,
-  player2Board: BoardState,
-  player2Id: string
-): BoardState {
-  const battleBoard: BoardState = {
-    pieces: {},
-    piecePositions: {},
-    size: { width: 6, height: 6 },
-  };
-
-  // Add player 1's pieces (keep positions)
-  Object.values(player1Board.pieces).forEach(piece => {
-    if (piece.position && (piece.currentHp || 100) > 0) {
-      const newPiece: Piece = {
-        ...piece,
-        ownerId: player1Id,
-        currentHp: piece.currentHp || 100,
-      };
-      battleBoard.pieces[piece.id] = newPiece;
-      battleBoard.piecePositions[`${piece.position.x},${piece.position.y}`] = piece.id;
-    }
-  });
-
-  // Add player 2's pieces (mirror positions)
-  Object.values(player2Board.pieces).forEach(piece => {
-    if (piece.position && (piece.currentHp || 100) > 0) {
-      const mirroredPos = {
-        x: 5 - piece.position.x,
-        y: 5 - piece.position.y,
-      };
-      const newId = `p2-${piece.id}`;
-      const newPiece: Piece = {
-        ...piece,
-        id: newId,
-        ownerId: player2Id,
-        position: mirroredPos,
-        currentHp: piece.currentHp || 100,
-      };
-      battleBoard.pieces[newId] = newPiece;
-      battleBoard.piecePositions[`${mirroredPos.x},${mirroredPos.y}`] = newId;
-    }
-  });
-
-  return battleBoard;
+// The first human player (by id) runs the battles - with no humans left, anyone may
+function isBattleHost(alivePlayers: Player[], currentUserId: string): boolean {
+  const humanPlayers = alivePlayers.filter(p => !p.name.startsWith('Bot ') && !p.isBot);
+  const sortedHumans = [...humanPlayers].sort((a, b) => a.id.localeCompare(b.id));
+  return sortedHumans.length === 0 || sortedHumans[0]?.id === currentUserId;
 }
 
 // =============================================
@@ -101,12 +80,17 @@ function createBattleBoardFromTwo(
 export function useGameFlow(matchId: string | null, currentUserId: string | null) {
   const {
     players,
+    phase,
+    turnNumber,
     setPhase,
     setTurnNumber,
     setBattleState,
+    addBattleEvent,
     setBattleResult,
     clearBattle,
     applyBattleResult,
+    applyPveReward,
+    offerAugments,
     updatePlayerStats,
   } = useGameStore();
 
@@ -141,33 +125,94 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
     return allReady;
   }, []);
 
+  // Settlement, then the next round's preparation phase
+  const finishBattleRound = useCallback(
+    (battleMatchId: string) => {
+      setTimeout(async () => {
+        clearBattle();
+        setPhase('settlement');
+
+        setTimeout(async () => {
+          battleStartedRef.current = false;
+          battleResultsProcessedRef.current = false;
+
+          const newTurn = useGameStore.getState().turnNumber + 1;
+          setTurnNumber(newTurn);
+          setPhase('preparation');
+
+          // CRITICAL: Update database with new turn number to prevent reset from DB events
+          if (battleMatchId) {
+            await updateMatchPhase(battleMatchId, 'preparation', newTurn);
+          }
+
+          // Reset ALL players' ready status (both bots and humans)
+          readyTrackerRef.current.players.forEach((status, playerId) => {
+            status.isReady = false;
+            // Update UI to show not ready
+            updatePlayerStats(playerId, { isReady: false });
+          });
+
+          // CRITICAL: Publish phase change via Realtime so bots hear about new round!
+          if (battleMatchId) {
+            console.log('[GameFlow] Publishing phase change to preparation, turn:', newTurn);
+            await realtimeService.publishPhaseChange(battleMatchId, 'preparation', newTurn);
+          }
+        }, 2000);
+      }, 2000);
+    },
+    [clearBattle, setPhase, setTurnNumber, updatePlayerStats]
+  );
+
   // Run battle turn by turn with Edge Function
   const runBattleTurnByTurn = useCallback(
     async (
       battleMatchId: string,
-      initialBoard: BoardState,
+      player1Board: BoardState,
+      player2Board: BoardState,
       player1Id: string,
       player2Id: string
     ) => {
-      let currentBoard = initialBoard;
+      const battleEvents: BattleEvent[] = [];
       let turn = 0;
-      const maxTurns = 30;
       const turnDelay = 500; // ms between turns for animation
 
-      console.log('[GameFlow] Starting turn-by-turn battle');
+      // Later rounds cost the loser more HP
+      const round = useGameStore.getState().turnNumber;
+
+      // The seed makes the whole battle reproducible from the initial board (terrain included)
+      const seed = createBattleSeed();
+      console.log('[GameFlow] Starting turn-by-turn battle, seed:', seed);
+
+      // The server builds the battle board itself - this one is only the preview, with the
+      // terrain the engine rolls from the seed
+      let currentBoard = initializeBattle(
+        createBattleBoardFromTwo(player1Board, player1Id, player2Board, player2Id),
+        seed
+      ).board;
+
+      // Show the rolled map before the first step comes back
+      if (currentOpponentRef.current) {
+        setBattleState(currentBoard, currentOpponentRef.current);
+      }
 
-      while (turn < maxTurns) {
+      while (turn < MAX_BATTLE_STEPS) {
         turn++;
 
+        // Every step sends both player boards and the seed - the server replays up to this step
+        const stepRequest: BattleStepRequest = {
+          matchId: battleMatchId,
+          turn,
+          player1Id,
+          player2Id,
+          round,
+          player1Board,
+          player2Board,
+          seed,
+        };
+
         try {
           const { data, error } = await insforge.functions.invoke('run-battle', {
-            body: {
-              matchId: battleMatchId,
-              turn,
-              battleBoard: currentBoard,
-              player1Id,
-              player2Id,
-            },
+            body: stepRequest,
           });
 
           if (error) {
@@ -180,13 +225,16 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
             break;
           }
 
-          // Update board for next turn
+          // Update board for the next turn
           currentBoard = data.updatedBoard;
+          battleEvents.push(...(data.events || []));
 
           // Update UI with current state
           const opponent = currentOpponentRef.current;
           if (opponent) {
             setBattleState(currentBoard as BoardState, opponent);
+            // This step's events, for the board to animate
+            (data.events || []).forEach(addBattleEvent);
           }
 
           console.log(`[GameFlow] Turn ${turn}: ${data.events?.length || 0} events`);
@@ -203,7 +251,20 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
                 player2Id,
               };
               setBattleResult(result);
-              
+
+              // Keep a replay of the fight so it can be watched again at /replay/:id
+              const replay = createBattleReplay({
+                id: uuidv4(),
+                matchId: battleMatchId,
+                seed,
+                player1: { id: player1Id, board: player1Board },
+                player2: { id: player2Id, board: player2Board },
+                events: battleEvents,
+                result,
+              });
+              saveReplay(replay);
+              console.log(`[GameFlow] Replay saved: /replay/${replay.id}`);
+
               // Mark as processed BEFORE applying to prevent double-processing
               // when we receive our own published results via realtime subscription
               battleResultsProcessedRef.current = true;
@@ -246,47 +307,103 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
         }
       }
 
-      // Transition to settlement phase after battle
-      setTimeout(async () => {
-        clearBattle();
-        setPhase('settlement');
+      finishBattleRound(battleMatchId);
+    },
+    [setBattleState, addBattleEvent, setBattleResult, applyBattleResult, finishBattleRound]
+  );
 
-        setTimeout(async () => {
-          battleStartedRef.current = false;
-          battleResultsProcessedRef.current = false;
+  // Fight this round's PvE wave - every client fights its own player's battle, and the host also
+  // resolves the bots' battles. PvE battles run on the local engine and are played back from
+  // their events at the pace of a player vs player battle.
+  const runPveRound = useCallback(
+    async (
+      battleMatchId: string,
+      wave: PveWave,
+      playerBoards: { playerId: string; boardState: unknown }[],
+      fightingPlayerId: string | null,
+      botIds: string[]
+    ) => {
+      const round = useGameStore.getState().turnNumber;
+      const boardOf = (playerId: string): BoardState => {
+        const board = playerBoards.find(pb => pb.playerId === playerId)?.boardState as
+          | BoardState
+          | undefined;
+        return board?.pieces ? board : createEmptyBoard();
+      };
 
-          const newTurn = useGameStore.getState().turnNumber + 1;
-          setTurnNumber(newTurn);
-          setPhase('preparation');
+      // Bots get base income, the win bonus and the wave's gold (but no items)
+      for (const botId of botIds) {
+        const { result } = runPveBattle(
+          boardOf(botId),
+          botId,
+          wave,
+          battleMatchId,
+          createBattleSeed(),
+          round
+        );
+        const isWinner = result.winnerId === botId;
+        const damage = isWinner ? 0 : result.damageDealt;
+        const income = BASE_INCOME + (isWinner ? 1 + wave.reward.gold : 0);
+        applyBattleResultToBot(battleMatchId, botId, damage, isWinner, income);
+      }
 
-          // CRITICAL: Update database with new turn number to prevent reset from DB events
-          if (battleMatchId) {
-            await updateMatchPhase(battleMatchId, 'preparation', newTurn);
-          }
+      // Always finish the round - a host with no fighting player (e.g. eliminated) only skips
+      // the local playback
+      if (fightingPlayerId) {
+        const seed = createBattleSeed();
+        const playerBoard = boardOf(fightingPlayerId);
+        const { pveBoard, state, result } = runPveBattle(
+          playerBoard,
+          fightingPlayerId,
+          wave,
+          battleMatchId,
+          seed,
+          round
+        );
+        console.log(`[GameFlow] PvE battle vs ${wave.name}, seed: ${seed}`);
+
+        const replay = createBattleReplay({
+          id: uuidv4(),
+          matchId: battleMatchId,
+          seed,
+          player1: { id: fightingPlayerId, board: playerBoard },
+          player2: { id: PVE_PLAYER_ID, board: pveBoard },
+          events: state.events,
+          result,
+        });
+        saveReplay(replay);
+        console.log(`[GameFlow] Replay saved: /replay/${replay.id}`);
+
+        // One step's worth of turns per frame shown
+        const opponent = createPveOpponent(wave, battleMatchId);
+        const frames = buildReplayFrames(replay);
+        const lastTurn = frames.length - 1;
+        for (let turn = 0; ; turn = Math.min(turn + TURNS_PER_STEP, lastTurn)) {
+          setBattleState(frames[turn], opponent);
+          state.events
+            .filter(e => e.turn > turn - TURNS_PER_STEP && e.turn <= turn)
+            .forEach(addBattleEvent);
+          if (turn === lastTurn) break;
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
 
-          // Reset ALL players' ready status (both bots and humans)
-          readyTrackerRef.current.players.forEach((status, playerId) => {
-            status.isReady = false;
-            // Update UI to show not ready
-            updatePlayerStats(playerId, { isReady: false });
-          });
+        setBattleResult(result);
+        battleResultsProcessedRef.current = true;
+        if (result.winnerId === fightingPlayerId) {
+          applyPveReward(wave.reward);
+        }
+        applyBattleResult(result);
+      }
 
-          // CRITICAL: Publish phase change via Realtime so bots hear about new round!
-          if (battleMatchId) {
-            console.log('[GameFlow] Publishing phase change to preparation, turn:', newTurn);
-            await realtimeService.publishPhaseChange(battleMatchId, 'preparation', newTurn);
-          }
-        }, 2000);
-      }, 2000);
+      finishBattleRound(battleMatchId);
     },
     [
       setBattleState,
+      addBattleEvent,
       setBattleResult,
       applyBattleResult,
-      clearBattle,
-      setPhase,
-      setTurnNumber,
-      updatePlayerStats,
+      applyPveReward,
+      finishBattleRound,
     ]
   );
 
@@ -329,6 +446,8 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
           winStreak: (p.win_streak as number) || 0,
           loseStreak: (p.lose_streak as number) || 0,
           lastOpponentId: p.last_opponent_id as string | null,
+          commanderId: (p.commander_id as CommanderId | null) ?? null,
+          augments: (p.augments as AugmentId[] | null) ?? [],
         }));
         console.log('[GameFlow] Fetched players from database:', playerList.length);
       } catch (err) {
@@ -346,6 +465,26 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
       alivePlayers.map(p => p.name)
     );
 
+    // PvE rounds: everyone fights the scripted wave instead of another player
+    const wave = getPveWave(currentTurn);
+    if (wave) {
+      console.log(`[GameFlow] PvE round ${currentTurn}: ${wave.name}`);
+      currentOpponentRef.current = createPveOpponent(wave, matchId);
+      const isAlive = alivePlayers.some(p => p.id === currentUserId);
+      const botIds = isBattleHost(alivePlayers, currentUserId)
+        ? getBotIds(matchId).filter(id => alivePlayers.some(p => p.id === id))
+        : [];
+
+      try {
+        const playerBoards = await getPlayerBoards(matchId);
+        await runPveRound(matchId, wave, playerBoards, isAlive ? currentUserId : null, botIds);
+      } catch (err) {
+        console.error('[GameFlow] Failed to run PvE round:', err);
+        battleStartedRef.current = false;
+      }
+      return;
+    }
+
     const pairings = generatePairings(alivePlayers);
 
     console.log(
@@ -394,10 +533,13 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
           piecePositions: {},
           size: { width: 6, height: 6 },
         };
+        const myBattleBoard = (myBoard?.boardState as unknown as BoardState) || emptyBoard;
+        const opponentBattleBoard =
+          (opponentBoard?.boardState as unknown as BoardState) || emptyBoard;
         const initialBattleBoard = createBattleBoardFromTwo(
-          (myBoard?.boardState as unknown as BoardState) || emptyBoard,
+          myBattleBoard,
           currentUserId,
-          (opponentBoard?.boardState as unknown as BoardState) || emptyBoard,
+          opponentBattleBoard,
           opponentId
         );
 
@@ -407,13 +549,15 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
         }
 
         // Run battle if host
-        const humanPlayers = alivePlayers.filter(p => !p.name.startsWith('Bot ') && !p.isBot);
-        const sortedHumans = [...humanPlayers].sort((a, b) => a.id.localeCompare(b.id));
-        const isHost = sortedHumans.length === 0 || sortedHumans[0]?.id === currentUserId;
-
-        if (isHost) {
+        if (isBattleHost(alivePlayers, currentUserId)) {
           console.log('[GameFlow] I am the host, running battle simulation');
-          await runBattleTurnByTurn(matchId, initialBattleBoard, currentUserId, opponentId);
+          await runBattleTurnByTurn(
+            matchId,
+            myBattleBoard,
+            opponentBattleBoard,
+            currentUserId,
+            opponentId
+          );
         } else {
           console.log('[GameFlow] Not the host, waiting for battle results via Realtime');
         }
@@ -422,7 +566,7 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
       console.error('[GameFlow] Failed to fetch player boards or run battle:', err);
       battleStartedRef.current = false;
     }
-  }, [matchId, players, currentUserId, setBattleState, setPhase, runBattleTurnByTurn]);
+  }, [matchId, players, currentUserId, setBattleState, setPhase, runBattleTurnByTurn, runPveRound]);
 
   // Start new preparation phase
   const startPreparationPhase = useCallback(async () => {
@@ -665,6 +809,14 @@ export function useGameFlow(matchId: string | null, currentUserId: string | null
     }
   }, [players]);
 
+  // Augment rounds: offer the player a pick when their preparation phase starts
+  // (bots pick theirs in the bot decision path)
+  useEffect(() => {
+    if (phase === 'preparation') {
+      offerAugments(turnNumber);
+    }
+  }, [phase, turnNumber, offerAugments]);
+
   return {
     checkAllPlayersReady: checkAllPlayersReadyLocal,
     startBattlePhase,
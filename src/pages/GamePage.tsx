@@ -5,7 +5,12 @@ import useGameStore from '../store/gameStore';
 import { useGameFlow } from '../hooks/useGameFlow';
 import {
   BoardGrid,
+  BattleResultPanel,
+  MvpPanel,
   Bench,
+  ItemBench,
+  CommanderSelect,
+  AugmentSelect,
   Shop,
   PlayerList,
   SynergyPanel,
@@ -17,7 +22,8 @@ import { getMatch, setPlayerReady, updateBoardState } from '../services/matchSer
 import { realtimeService } from '../services/realtimeService';
 import botService from '../services/botService';
 import { createShopState } from '../engine/shop';
-import { Position, Player, Piece } from '../types';
+import { getBenchSize } from '../engine/augments';
+import { AugmentId, CommanderId, Position, Player, Piece } from '../types';
 import { Home, Settings, HelpCircle, Volume2, VolumeX, Coins, Heart } from 'lucide-react';
 
 interface MatchPlayer {
@@ -33,6 +39,8 @@ interface MatchPlayer {
   win_streak?: number;
   lose_streak?: number;
   last_opponent_id?: string;
+  commander_id?: CommanderId | null;
+  augments?: AugmentId[] | null;
 }
 
 export function GamePage() {
@@ -46,7 +54,12 @@ export function GamePage() {
     players,
     board,
     battleBoard,
+    battleEvents,
+    battleResult,
     bench,
+    itemBench,
+    commanderOffer,
+    augmentOffer,
     shop,
     cardPool,
     synergies,
@@ -63,6 +76,10 @@ export function GamePage() {
     deployFromBench,
     returnToBench,
     sellPiece,
+    equipItem,
+    offerCommanders,
+    chooseCommander,
+    chooseAugment,
     buyCard,
     refreshShop,
     toggleReady,
@@ -132,6 +149,8 @@ export function GamePage() {
           winStreak: p.win_streak || 0,
           loseStreak: p.lose_streak || 0,
           lastOpponentId: p.last_opponent_id,
+          commanderId: p.commander_id ?? null,
+          augments: p.augments ?? [],
         }));
 
         setPlayers(playersList);
@@ -176,6 +195,7 @@ export function GamePage() {
             money: payload.money,
             isReady: payload.is_ready,
             isAlive: payload.is_alive,
+            commanderId: payload.commander_id ?? null,
           });
         }
       });
@@ -186,6 +206,13 @@ export function GamePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [matchId, currentUserId]);
 
+  // Offer commanders until the player has picked one
+  useEffect(() => {
+    if (!isLoading && currentPlayer && !currentPlayer.commanderId) {
+      offerCommanders();
+    }
+  }, [isLoading, currentPlayer, offerCommanders]);
+
   // Cleanup on unmount only
   useEffect(() => {
     const currentMatchId = matchId;
@@ -281,6 +308,12 @@ export function GamePage() {
     }
   };
 
+  const handleItemClick = (itemIndex: number) => {
+    if (selectedPieceId) {
+      equipItem(itemIndex, selectedPieceId);
+    }
+  };
+
   const handlePieceRightClick = (pieceId: string) => {
     // Return to bench
     const piece = board.pieces[pieceId];
@@ -308,6 +341,9 @@ export function GamePage() {
     toggleShopLock();
   };
 
+  // Strafing runs from the latest battle step, animated over the board
+  const strafeRuns = phase === 'battle' ? battleEvents.filter(e => e.type === 'strafe') : [];
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-stone-950 flex items-center justify-center">
@@ -369,6 +405,12 @@ export function GamePage() {
         {/* Left Sidebar - Player List & Synergies */}
         <div className="w-[356px] flex-shrink-0 p-3 space-y-3 overflow-y-auto">
           <PlayerList players={players} currentPlayerId={currentUserId || ''} />
+          {phase === 'settlement' && battleResult?.damageBreakdown && (
+            <BattleResultPanel result={battleResult} currentPlayerId={currentUserId || ''} />
+          )}
+          {phase === 'settlement' && battleResult?.pieceStats && (
+            <MvpPanel pieceStats={battleResult.pieceStats} currentPlayerId={currentUserId || ''} />
+          )}
           <SynergyPanel synergies={synergies} />
         </div>
 
@@ -388,6 +430,7 @@ export function GamePage() {
               onPieceRightClick={handlePieceRightClick}
               onPieceHover={handlePieceHover}
               isPreparation={phase === 'preparation'}
+              strafeRuns={strafeRuns}
             />
           </motion.div>
 
@@ -399,6 +442,16 @@ export function GamePage() {
               onPieceClick={handlePieceClick}
               onPieceRightClick={id => sellPiece(id)}
               onPieceHover={handlePieceHover}
+              size={getBenchSize(currentPlayer?.augments ?? [])}
+            />
+          </div>
+
+          {/* Item Bench */}
+          <div className="mt-3 w-full max-w-2xl">
+            <ItemBench
+              items={itemBench}
+              canEquip={phase === 'preparation' && !!selectedPieceId}
+              onItemClick={handleItemClick}
             />
           </div>
         </div>
@@ -416,6 +469,15 @@ export function GamePage() {
         </div>
       </div>
 
+      {/* Commander pick at match start */}
+      <CommanderSelect offer={commanderOffer} onSelect={chooseCommander} />
+
+      {/* Augment pick on augment rounds - after the commander, during preparation only */}
+      <AugmentSelect
+        offer={phase === 'preparation' && commanderOffer.length === 0 ? augmentOffer : []}
+        onSelect={chooseAugment}
+      />
+
       {/* Unit Detail Card - Shows on hover from board/bench */}
       <UnitDetailCard piece={hoveredPiece} visible={!!hoveredPiece} />
 
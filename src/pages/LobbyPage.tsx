@@ -3,7 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'motion/react';
 import { v4 as uuidv4 } from 'uuid';
 import { Button, Card } from '../components/ui';
-import { Users, Plus, Play, RefreshCw, Trophy, Sword, Shield, Target, Plane } from 'lucide-react';
+import {
+  Users,
+  Plus,
+  Play,
+  RefreshCw,
+  Trophy,
+  Sword,
+  Shield,
+  Target,
+  Plane,
+  Film,
+} from 'lucide-react';
 import {
   createMatch,
   joinMatch,
@@ -171,6 +182,8 @@ export function LobbyPage() {
           winStreak: 0,
           loseStreak: 0,
           lastOpponentId: null,
+          commanderId: null,
+          augments: [],
         });
       }
 
@@ -284,6 +297,14 @@ export function LobbyPage() {
                     <Plus size={16} className="mr-2" />
                     Create Room
                   </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => navigate('/replay')}
+                    className="flex-1 flex items-center justify-center"
+                  >
+                    <Film size={16} className="mr-2" />
+                    Replays
+                  </Button>
                 </div>
               </div>
             </Card>
@@ -0,0 +1,370 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { BoardGrid, MvpPanel } from '../components/game';
+import { Button, Card } from '../components/ui';
+import { BattleReplay, buildReplayFrames } from '../engine/replay';
+import { BATTLE_RULES_VERSION, isOvertime } from '../engine/battle';
+import {
+  loadReplay,
+  listReplays,
+  deleteReplay,
+  downloadReplay,
+  importReplay,
+} from '../services/replayService';
+import { BattleDecision, BattleEvent } from '../types';
+import {
+  Home,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  RotateCcw,
+  Download,
+  Upload,
+  Trash2,
+} from 'lucide-react';
+
+// Engine turns shown per second at 1x speed
+const TURNS_PER_SECOND = 10;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+const DECISION_LABELS: Record<BattleDecision, string> = {
+  regulation: 'Decided in regulation',
+  overtime: 'Decided in overtime',
+  timeout: 'Timed out in overtime',
+};
+
+function describeEvent(event: BattleEvent): string {
+  const piece = event.pieceId.slice(0, 8);
+  const target = event.targetId?.slice(0, 8);
+
+  switch (event.type) {
+    case 'move':
+      return `${piece} moves to ${event.to?.x},${event.to?.y}`;
+    case 'attack':
+      return event.damage === undefined
+        ? `${piece} attacks ${target}`
+        : `${piece} attacks ${target} for ${event.damage}`;
+    case 'hit':
+      return event.status
+        ? `${piece} takes ${event.damage} ${event.status.type} damage`
+        : `${piece} takes ${event.damage} damage`;
+    case 'heal':
+      return `${piece} heals ${target} for ${event.healing}`;
+    case 'death':
+      return `${piece} is destroyed`;
+    case 'obstacle_built':
+      return `${piece} builds ${event.obstacle?.type.replace('_', ' ')} at ${event.to?.x},${event.to?.y}`;
+    case 'obstacle_hit':
+      return `${piece} deals ${event.damage} damage to the obstacle at ${event.to?.x},${event.to?.y}`;
+    case 'obstacle_destroyed':
+      return `${piece} destroys the obstacle at ${event.to?.x},${event.to?.y}`;
+    case 'obstacle_expired':
+      return `${piece}'s obstacle at ${event.to?.x},${event.to?.y} crumbles`;
+    case 'dodge':
+      return `${piece} dodges ${target}`;
+    case 'status_applied':
+      return `${piece} is ${event.status?.type} (x${event.status?.stacks}) by ${target}`;
+    case 'status_expired':
+      return `${piece} is no longer ${event.status?.type}`;
+    case 'strafe':
+      return `${piece} strafes ${event.from?.x},${event.from?.y} to ${event.to?.x},${event.to?.y}`;
+    case 'bomb_dropped':
+      return `${piece} drops a bomb on ${event.to?.x},${event.to?.y}, landing on turn ${event.landsAtTurn}`;
+    case 'terrain_changed':
+      return `${piece} leaves a ${event.terrain} at ${event.to?.x},${event.to?.y}`;
+    default:
+      return `${piece} ${event.type}`;
+  }
+}
+
+// Board, playback controls and event log for one replay
+function ReplayViewer({ replay }: { replay: BattleReplay }) {
+  const [turn, setTurn] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const frames = useMemo(() => buildReplayFrames(replay), [replay]);
+  const lastTurn = frames.length - 1;
+  const isRunning = isPlaying && turn < lastTurn;
+
+  // Advance one engine turn per tick while playing
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const timer = setTimeout(() => setTurn(t => t + 1), 1000 / (TURNS_PER_SECOND * speed));
+    return () => clearTimeout(timer);
+  }, [isRunning, turn, speed]);
+
+  const turnEvents = useMemo(() => replay.events.filter(e => e.turn === turn), [replay, turn]);
+  const strafeRuns = useMemo(() => turnEvents.filter(e => e.type === 'strafe'), [turnEvents]);
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!isRunning && turn >= lastTurn) {
+      setTurn(0);
+    }
+    setIsPlaying(!isRunning);
+  };
+
+  return (
+    <div className="flex w-full h-full">
+      <div className="flex-1 min-w-0 flex flex-col items-center justify-center">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="w-full max-w-2xl"
+        >
+          <BoardGrid
+            board={frames[turn]}
+            playerId={replay.player1.id}
+            selectedPieceId={null}
+            onTileClick={() => {}}
+            onPieceClick={() => {}}
+            isPreparation={false}
+            strafeRuns={strafeRuns}
+          />
+        </motion.div>
+
+        <div className="mt-4 w-full max-w-2xl space-y-2">
+          <input
+            type="range"
+            min={0}
+            max={lastTurn}
+            value={turn}
+            onChange={e => {
+              setIsPlaying(false);
+              setTurn(Number(e.target.value));
+            }}
+            className="w-full accent-amber-500"
+          />
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setTurn(0)}>
+                <RotateCcw size={16} />
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  setIsPlaying(false);
+                  setTurn(t => Math.max(0, t - 1));
+                }}
+              >
+                <SkipBack size={16} />
+              </Button>
+              <Button size="sm" onClick={togglePlaying}>
+                {isRunning ? <Pause size={16} /> : <Play size={16} />}
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  setIsPlaying(false);
+                  setTurn(t => Math.min(lastTurn, t + 1));
+                }}
+              >
+                <SkipForward size={16} />
+              </Button>
+            </div>
+
+            <span className="text-stone-400 text-sm font-mono">
+              Turn {turn} / {lastTurn}
+              {isOvertime(turn) && <span className="ml-2 text-red-400">OVERTIME</span>}
+            </span>
+
+            <div className="flex items-center gap-1">
+              {PLAYBACK_SPEEDS.map(s => (
+                <Button
+                  key={s}
+                  variant={s === speed ? 'primary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setSpeed(s)}
+                >
+                  {s}x
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="w-[300px] flex-shrink-0 p-3 space-y-3 overflow-y-auto">
+        <Card className="p-3 text-sm space-y-1">
+          <h3 className="font-bold text-amber-400 mb-2">Result</h3>
+          <div className="text-stone-300">
+            {replay.result.isDraw
+              ? 'Draw'
+              : `${replay.result.winnerId?.slice(0, 8)} wins with ${replay.result.winnerSurvivors} survivors`}
+          </div>
+          {/* Replays recorded before overtime existed have no decision */}
+          {replay.result.decidedBy && (
+            <div className="text-stone-400">{DECISION_LABELS[replay.result.decidedBy]}</div>
+          )}
+          <div className="text-stone-500">Damage dealt: {replay.result.damageDealt}</div>
+          {replay.result.damageBreakdown?.map(item => (
+            <div key={item.source} className="flex justify-between text-stone-500 text-xs">
+              <span>{item.label}</span>
+              <span className="font-mono">+{item.amount}</span>
+            </div>
+          ))}
+          <div className="text-stone-500 font-mono text-xs">Seed: {replay.seed}</div>
+          {replay.rulesVersion !== BATTLE_RULES_VERSION && (
+            <div className="text-amber-500 text-xs">
+              Recorded under rules v{replay.rulesVersion} (current: v{BATTLE_RULES_VERSION})
+            </div>
+          )}
+        </Card>
+
+        {/* Replays recorded before per-piece stats existed have none */}
+        {replay.result.pieceStats && (
+          <MvpPanel pieceStats={replay.result.pieceStats} currentPlayerId={replay.player1.id} />
+        )}
+
+        <Card className="p-3 text-sm">
+          <h3 className="font-bold text-amber-400 mb-2">Turn {turn}</h3>
+          {turnEvents.length === 0 ? (
+            <p className="text-stone-500">No events</p>
+          ) : (
+            <ul className="space-y-1 text-stone-300 font-mono text-xs">
+              {turnEvents.map((event, i) => (
+                <li key={i}>{describeEvent(event)}</li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export function ReplayPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [replays, setReplays] = useState(() => listReplays());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const replay: BattleReplay | null = useMemo(() => (id ? loadReplay(id) : null), [id]);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const imported = await importReplay(file);
+      setError(null);
+      setReplays(listReplays());
+      navigate(`/replay/${imported.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import replay');
+    }
+  };
+
+  const handleDelete = (replayId: string) => {
+    deleteReplay(replayId);
+    setReplays(listReplays());
+    if (replayId === id) {
+      navigate('/replay');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-stone-950 via-stone-900 to-stone-950 text-white overflow-hidden">
+      {/* Top Bar */}
+      <div className="h-16 bg-stone-900/80 border-b border-stone-700 backdrop-blur-sm px-4 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/lobby')}>
+            <Home size={18} />
+          </Button>
+          <span className="text-amber-400 font-bold">Battle Replays</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload size={18} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => replay && downloadReplay(replay)}
+            disabled={!replay}
+          >
+            <Download size={18} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex h-[calc(100vh-4rem)]">
+        {/* Left Sidebar - Saved Replays */}
+        <div className="w-[300px] flex-shrink-0 p-3 space-y-2 overflow-y-auto">
+          {error && (
+            <div className="text-red-400 text-sm bg-red-500/10 px-3 py-2 rounded-lg">{error}</div>
+          )}
+
+          {replays.length === 0 && (
+            <p className="text-stone-500 text-sm">
+              No replays yet. Battles you host are saved here automatically.
+            </p>
+          )}
+
+          {replays.map(summary => (
+            <Card
+              key={summary.id}
+              variant={summary.id === id ? 'elevated' : 'default'}
+              hoverable
+              className="p-3"
+              onClick={() => navigate(`/replay/${summary.id}`)}
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <div className="text-stone-300">
+                    {summary.player1Id.slice(0, 8)} vs {summary.player2Id.slice(0, 8)}
+                  </div>
+                  <div className="text-xs text-stone-500">
+                    {new Date(summary.createdAt).toLocaleString()} ·{' '}
+                    {summary.winnerId ? `${summary.winnerId.slice(0, 8)} wins` : 'Draw'}
+                  </div>
+                </div>
+                <button
+                  className="text-stone-500 hover:text-red-400"
+                  onClick={e => {
+                    e.stopPropagation();
+                    handleDelete(summary.id);
+                  }}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Center - Board & Controls */}
+        <div className="flex-1 min-w-0 flex flex-col items-center justify-center p-4 overflow-hidden">
+          {!replay ? (
+            <p className="text-stone-400">
+              {id ? 'Replay not found on this device.' : 'Select or import a replay to watch.'}
+            </p>
+          ) : (
+            <ReplayViewer key={replay.id} replay={replay} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReplayPage;
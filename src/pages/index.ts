@@ -1,3 +1,4 @@
 export { AuthPage } from './AuthPage';
 export { LobbyPage } from './LobbyPage';
 export { GamePage } from './GamePage';
+export { ReplayPage } from './ReplayPage';
@@ -1,8 +1,27 @@
 import insforge from './insforge';
-import { updateBoardState } from './matchService';
-import { Player, Piece, BoardState, ShopCard, UnitTypeId } from '../types';
+import { setPlayerAugments, setPlayerCommander, updateBoardState } from './matchService';
+import {
+  AugmentId,
+  Player,
+  Piece,
+  BoardState,
+  CommanderId,
+  ShopCard,
+  UnitTypeId,
+  REFRESH_COST,
+} from '../types';
 import { UNIT_DEFINITIONS } from '../types/units';
-import { v4 as uuidv4 } from 'uuid';
+import { createCardPool, createPieceFromCard, drawCardOfCost } from '../engine/shop';
+import { rollFaction } from '../engine/synergy';
+import { getCommander, getRoundStartRefreshCost, rollCommanderOffer } from '../engine/commanders';
+import {
+  AUGMENT_DEFINITIONS,
+  getAugmentIncome,
+  getAugmentPicksDue,
+  getBenchSize,
+  rollAugmentOffer,
+} from '../engine/augments';
+import { pickBotAugment } from '../engine/bot';
 
 // =============================================
 // Bot Service - AI-Powered Bot Players
@@ -43,7 +62,9 @@ const BOT_SYSTEM_PROMPT = `You are an AI player in a WW2 Auto-Chess game. Make o
 
 ## Game Rules
 - During preparation phase: buy units, deploy units to board, upgrade experience
-- Gold is used to buy units (1-5 cost) and refresh shop (2 gold)
+- Gold is used to buy units (1-5 cost) and refresh shop (myState.refreshCost gold, normally 2)
+- Your commander (myState.commander) gives a passive bonus for the whole match
+- On some rounds augmentOffer lists augments - lasting bonuses; pick one with PICK_AUGMENT
 - Board is 6x6, you can only deploy on the bottom half (y=3-5)
 - 3 identical units merge into a higher star level
 
@@ -55,6 +76,11 @@ const BOT_SYSTEM_PROMPT = `You are an AI player in a WW2 Auto-Chess game. Make o
 - Artillery (3 cost): Ranged attack, area damage
 - Anti-Air (2 cost): Anti-aircraft specialty
 - Aircraft (3 cost): High mobility, can cross terrain
+- Medic (2 cost): Cannot attack, heals the most injured ally
+- Flamethrower (2 cost): Burns a cone of tiles, ignores cover and sandbags
+- Paratrooper (2 cost): Drops onto the enemy's back row when the battle starts
+- Sniper (3 cost): Long range shots that ignore defense
+- Heavy Bomber (4 cost): Air unit, bombs land a few turns after release
 
 ## Synergy Effects
 - Infantry synergy (3): All units +10% attack
@@ -62,6 +88,9 @@ const BOT_SYSTEM_PROMPT = `You are an AI player in a WW2 Auto-Chess game. Make o
 - Armor synergy (2): All units +15% armor
 - Artillery synergy (2): Skill damage +20%
 - Air Force synergy (2): Evasion +10%
+- Field Hospital synergy (2): Medics heal +1 HP
+- Faction synergies (2/4/6 of the same faction): US +1/+2/+3 attack, UK +1/+2/+3 defense, USSR +2/+4/+6 HP, Germany +20%/+35%/+50% extra attack chance, Japan +1/+2/+3 speed
+- Every synergy grows stronger at its next breakpoint (e.g. Infantry 3/6, others 2/4)
 
 ## Decision Principles
 1. **CRITICAL RULE: If you have NO units on the board (currentBoardCount = 0), you MUST buy at least one unit AND deploy it! Having zero units means automatic loss!**
@@ -80,6 +109,7 @@ Return JSON with a series of actions:
     { "type": "DEPLOY", "pieceId": "xxx", "position": { "x": 2, "y": 4 } },
     { "type": "REFRESH_SHOP" },
     { "type": "LEVEL_UP" },
+    { "type": "PICK_AUGMENT", "augmentId": "xxx" },
     { "type": "READY" }
   ]
 }
@@ -102,6 +132,10 @@ interface BotMemoryState {
   bench: Piece[];
   board: BoardState;
   isAlive: boolean;
+  commanderId: CommanderId;
+  refreshCost: number;
+  augments: AugmentId[];
+  augmentOffer: AugmentId[]; // Augments to pick from this round, if any
 }
 
 // Store bot states in memory
@@ -113,6 +147,9 @@ export function initializeBot(matchId: string, botPlayer: Player): void {
     botMemoryStates.set(matchId, new Map());
   }
 
+  // Bots take the first commander of their offer
+  const commanderId = botPlayer.commanderId ?? rollCommanderOffer()[0];
+
   const state: BotMemoryState = {
     playerId: botPlayer.id,
     playerName: botPlayer.name,
@@ -120,12 +157,28 @@ export function initializeBot(matchId: string, botPlayer: Player): void {
     money: botPlayer.money,
     level: botPlayer.level,
     bench: [],
-    board: { pieces: {}, piecePositions: {}, size: { width: 6, height: 6 } },
+    board: {
+      pieces: {},
+      piecePositions: {},
+      size: { width: 6, height: 6 },
+      commanderId,
+      augments: botPlayer.augments,
+    },
     isAlive: true,
+    commanderId,
+    refreshCost: getRoundStartRefreshCost(commanderId),
+    augments: botPlayer.augments,
+    augmentOffer: [],
   };
 
   botMemoryStates.get(matchId)!.set(botPlayer.id, state);
 
+  if (!botPlayer.commanderId) {
+    setPlayerCommander(matchId, botPlayer.id, commanderId).catch(err => {
+      console.warn(`[Bot ${botPlayer.name}] Failed to save commander:`, err);
+    });
+  }
+
   // Assign a random AI model to this bot
   const assignedModel = assignModelToBot(botPlayer.id);
   console.log(
@@ -177,6 +230,15 @@ export async function runBotAIDecision(matchId: string, botId: string, turnNumbe
   // Mark this turn as decided BEFORE making the call (prevents race conditions)
   matchDecisions?.set(botId, currentTurn);
 
+  // New round - the commander may make the first refresh free again
+  botState.refreshCost = getRoundStartRefreshCost(botState.commanderId);
+
+  // Augment rounds - the AI is asked to pick one (see publishBotReady for the fallback)
+  const augmentPicksDue = getAugmentPicksDue(currentTurn);
+  if (botState.augmentOffer.length === 0 && botState.augments.length < augmentPicksDue) {
+    botState.augmentOffer = rollAugmentOffer(botState.augments);
+  }
+
   let retryCount = 0;
   const maxRetries = 1;
 
@@ -270,6 +332,10 @@ function buildGameContext(matchId: string, botId: string): object {
       hp: botState.hp,
       money: botState.money,
       level: botState.level,
+      commander: getCommander(botState.commanderId)?.description,
+      refreshCost: botState.refreshCost,
+      benchSlots: getBenchSize(botState.augments),
+      augments: botState.augments.map(id => AUGMENT_DEFINITIONS[id].description),
       benchUnits: botState.bench.map(p => ({
         id: p.id,
         type: p.typeId,
@@ -290,6 +356,11 @@ function buildGameContext(matchId: string, botId: string): object {
       cost: card.cost,
       purchased: card.purchased,
     })),
+    augmentOffer: botState.augmentOffer.map(id => ({
+      augmentId: id,
+      name: AUGMENT_DEFINITIONS[id].name,
+      effect: AUGMENT_DEFINITIONS[id].description,
+    })),
     opponents,
     unitInfo: Object.fromEntries(
       Object.entries(UNIT_DEFINITIONS).map(([id, def]) => [
@@ -322,6 +393,7 @@ function generateShopForBot(level: number): ShopCard[] {
       typeId,
       cost: def?.cost || 1,
       traits: [],
+      faction: def?.faction ?? rollFaction(),
       purchased: false,
     });
   }
@@ -359,10 +431,11 @@ function parseAIDecision(response: string): { reasoning: string; actions: BotAct
 
 // Bot action types
 interface BotAction {
-  type: 'BUY' | 'DEPLOY' | 'REFRESH_SHOP' | 'LEVEL_UP' | 'READY';
+  type: 'BUY' | 'DEPLOY' | 'REFRESH_SHOP' | 'LEVEL_UP' | 'PICK_AUGMENT' | 'READY';
   cardIndex?: number;
   pieceId?: string;
   position?: { x: number; y: number };
+  augmentId?: AugmentId;
 }
 
 // Execute action via Realtime
@@ -411,6 +484,12 @@ async function executeActionViaRealtime(
       updateBotAfterLevelUp(matchId, botId);
       break;
 
+    case 'PICK_AUGMENT':
+      if (action.augmentId) {
+        updateBotAfterAugment(matchId, botId, action.augmentId);
+      }
+      break;
+
     case 'READY':
       await publishBotReady(matchId, botId);
       break;
@@ -421,6 +500,12 @@ async function executeActionViaRealtime(
 async function publishBotReady(matchId: string, botId: string): Promise<void> {
   const state = getBotMemoryState(matchId, botId);
 
+  // The AI skipped the augment pick - take the heuristic bot's choice
+  if (state && state.augmentOffer.length > 0) {
+    const pieces = [...Object.values(state.board.pieces), ...state.bench];
+    updateBotAfterAugment(matchId, botId, pickBotAugment(state.augmentOffer, pieces));
+  }
+
   // Save bot's board state to database so Edge Function can access it
   if (state) {
     try {
@@ -480,34 +565,14 @@ function updateBotAfterBuy(matchId: string, botId: string, cardIndex: number): v
   state.money -= card.cost;
   card.purchased = true;
 
-  // Create piece from card
-  const def = UNIT_DEFINITIONS[card.typeId];
-  if (!def) return;
-
   // Get matchId from state (bots track this via memory)
   const matchShopsEntries = Array.from(botShops.entries());
   const currentMatchId = matchShopsEntries.find(([, shops]) => shops.has(botId))?.[0] || '';
 
+  // Create piece from card (same stats and trait effects as player pieces)
   const piece: Piece = {
-    id: uuidv4(),
-    typeId: card.typeId,
-    ownerId: botId,
-    matchId: currentMatchId,
-    level: 1,
-    position: null,
+    ...createPieceFromCard(card, botId, currentMatchId),
     benchSlot: state.bench.length,
-    isOnBoard: false,
-    currentHp: def.baseHp,
-    maxHp: def.baseHp,
-    attack: def.baseAttackMin, // Use min attack as base
-    attackMin: def.baseAttackMin,
-    attackMax: def.baseAttackMax,
-    defense: def.baseDefense,
-    speed: def.baseSpeed,
-    range: def.baseRange,
-    status: 'idle',
-    facingUp: true,
-    traits: [],
   };
 
   state.bench.push(piece);
@@ -538,9 +603,10 @@ function updateBotAfterDeploy(
 // Update bot state after refresh
 function updateBotAfterRefresh(matchId: string, botId: string): void {
   const state = getBotMemoryState(matchId, botId);
-  if (!state || state.money < 2) return;
+  if (!state || state.money < state.refreshCost) return;
 
-  state.money -= 2;
+  state.money -= state.refreshCost;
+  state.refreshCost = REFRESH_COST;
 
   // Generate new shop
   const matchShops = botShops.get(matchId);
@@ -550,6 +616,34 @@ function updateBotAfterRefresh(matchId: string, botId: string): void {
   }
 }
 
+// Update bot state after picking an augment
+function updateBotAfterAugment(matchId: string, botId: string, augmentId: AugmentId): void {
+  const state = getBotMemoryState(matchId, botId);
+  if (!state || !state.augmentOffer.includes(augmentId)) return;
+
+  state.augments = [...state.augments, augmentId];
+  state.board.augments = state.augments;
+  state.augmentOffer = [];
+
+  // Free unit onto the bench - bots don't share the match's card pool
+  const { freeUnitCost } = AUGMENT_DEFINITIONS[augmentId];
+  const card = freeUnitCost ? drawCardOfCost(freeUnitCost, createCardPool()) : null;
+  if (card && state.bench.length < getBenchSize(state.augments)) {
+    const piece = createPieceFromCard(card, botId, matchId);
+    const usedSlots = new Set(state.bench.map(p => p.benchSlot));
+    let slot = 0;
+    while (usedSlots.has(slot)) slot++;
+    piece.benchSlot = slot;
+    state.bench.push(piece);
+  }
+
+  console.log(`[Bot ${state.playerName}] Picked augment ${AUGMENT_DEFINITIONS[augmentId].name}`);
+
+  setPlayerAugments(matchId, botId, state.augments).catch(err => {
+    console.warn(`[Bot ${state.playerName}] Failed to save augments:`, err);
+  });
+}
+
 // Update bot state after level up
 function updateBotAfterLevelUp(matchId: string, botId: string): void {
   const state = getBotMemoryState(matchId, botId);
@@ -576,7 +670,10 @@ export function applyBattleResultToBot(
     state.hp = Math.max(0, state.hp - damage);
     state.isAlive = state.hp > 0;
   }
-  state.money += income;
+  state.money += income + getAugmentIncome(state.augments);
+  if (won) {
+    state.money += getCommander(state.commanderId)?.winGoldBonus ?? 0;
+  }
 
   console.log(
     `[Bot ${state.playerName}] Battle result: ${won ? 'WIN' : 'LOSE'}, HP: ${state.hp}, Money: ${state.money}`
@@ -2,3 +2,4 @@ export { insforge } from './insforge';
 export * from './matchService';
 export { realtimeService } from './realtimeService';
 export * as botService from './botService';
+export * as replayService from './replayService';
@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import insforge from './insforge';
-import { MAX_PLAYERS, STARTING_HP, STARTING_MONEY } from '../types';
+import { AugmentId, CommanderId, MAX_PLAYERS, STARTING_HP, STARTING_MONEY } from '../types';
 
 // =============================================
 // Match Service - InsForge Database Operations
@@ -266,6 +266,32 @@ export async function updatePlayerMoney(matchId: string, playerId: string, money
   if (error) throw error;
 }
 
+// Record the commander a player picked at match start
+export async function setPlayerCommander(
+  matchId: string,
+  playerId: string,
+  commanderId: CommanderId
+) {
+  const { error } = await insforge.database
+    .from('match_players')
+    .update({ commander_id: commanderId, updated_at: new Date().toISOString() })
+    .eq('match_id', matchId)
+    .eq('player_id', playerId);
+
+  if (error) throw error;
+}
+
+// Record the augments a player has picked so far
+export async function setPlayerAugments(matchId: string, playerId: string, augments: AugmentId[]) {
+  const { error } = await insforge.database
+    .from('match_players')
+    .update({ augments, updated_at: new Date().toISOString() })
+    .eq('match_id', matchId)
+    .eq('player_id', playerId);
+
+  if (error) throw error;
+}
+
 // Get alive players in a match
 export async function getAlivePlayers(matchId: string) {
   const { data, error } = await insforge.database
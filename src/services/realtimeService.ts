@@ -1,4 +1,5 @@
 import insforge from './insforge';
+import { AugmentId, CommanderId, DamageBreakdownItem, PieceBattleStats } from '../types';
 
 // =============================================
 // Realtime Service - WebSocket Subscriptions
@@ -26,6 +27,8 @@ export interface PlayerUpdatePayload {
   placement?: number;
   win_streak: number;
   lose_streak: number;
+  commander_id?: CommanderId | null;
+  augments?: AugmentId[] | null;
 }
 
 export interface BoardUpdatePayload {
@@ -67,7 +70,10 @@ export interface BattleResultsPayload {
       winnerSurvivors: number;
       loserSurvivors: number;
       damageDealt: number;
+      damageBreakdown: DamageBreakdownItem[];
       isDraw: boolean;
+      decidedBy: 'regulation' | 'overtime' | 'timeout';
+      pieceStats: PieceBattleStats[];
     };
     events: Array<{
       turn: number;
@@ -0,0 +1,95 @@
+import { BattleReplay, parseBattleReplay } from '../engine/replay';
+
+// =============================================
+// Replay Service - Local Replay Storage
+// Replays live in localStorage so they can be watched without a backend,
+// and are shared as downloadable JSON files.
+// =============================================
+
+const STORAGE_PREFIX = 'ww2-autochess:replay:';
+const INDEX_KEY = 'ww2-autochess:replays';
+const MAX_STORED_REPLAYS = 30;
+
+export interface ReplaySummary {
+  id: string;
+  matchId: string;
+  createdAt: string;
+  player1Id: string;
+  player2Id: string;
+  winnerId: string | null;
+}
+
+function readIndex(): ReplaySummary[] {
+  try {
+    return JSON.parse(localStorage.getItem(INDEX_KEY) || '[]') as ReplaySummary[];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: ReplaySummary[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+// Save a replay, dropping the oldest ones beyond MAX_STORED_REPLAYS
+export function saveReplay(replay: BattleReplay) {
+  const summary: ReplaySummary = {
+    id: replay.id,
+    matchId: replay.matchId,
+    createdAt: replay.createdAt,
+    player1Id: replay.player1.id,
+    player2Id: replay.player2.id,
+    winnerId: replay.result.winnerId,
+  };
+
+  const index = [summary, ...readIndex().filter(r => r.id !== replay.id)];
+  for (const dropped of index.splice(MAX_STORED_REPLAYS)) {
+    localStorage.removeItem(STORAGE_PREFIX + dropped.id);
+  }
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + replay.id, JSON.stringify(replay));
+    writeIndex(index);
+  } catch (err) {
+    console.error('[Replay] Failed to save replay:', err);
+  }
+}
+
+export function loadReplay(id: string): BattleReplay | null {
+  const raw = localStorage.getItem(STORAGE_PREFIX + id);
+  if (!raw) return null;
+
+  try {
+    return parseBattleReplay(JSON.parse(raw));
+  } catch (err) {
+    console.error('[Replay] Stored replay is invalid:', err);
+    return null;
+  }
+}
+
+export function listReplays(): ReplaySummary[] {
+  return readIndex();
+}
+
+export function deleteReplay(id: string) {
+  localStorage.removeItem(STORAGE_PREFIX + id);
+  writeIndex(readIndex().filter(r => r.id !== id));
+}
+
+// Download a replay as a JSON file for sharing
+export function downloadReplay(replay: BattleReplay) {
+  const blob = new Blob([JSON.stringify(replay, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `replay-${replay.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Import a shared replay file and store it locally - throws if the file is not a valid replay
+export async function importReplay(file: File): Promise<BattleReplay> {
+  const replay = parseBattleReplay(JSON.parse(await file.text()));
+  saveReplay(replay);
+  return replay;
+}
@@ -14,13 +14,14 @@ import {
   BattleResult,
   BattleEvent,
   ActiveSynergy,
+  AugmentId,
+  CommanderId,
   GamePhase,
+  ItemId,
   UnitTypeId,
   BOARD_HEIGHT,
-  BENCH_SIZE,
 } from '../types';
-import { updatePlayerMoney } from '../services/matchService';
-import { UNIT_DEFINITIONS } from '../types/units';
+import { setPlayerAugments, setPlayerCommander, updatePlayerMoney } from '../services/matchService';
 import {
   createEmptyBoard,
   addPieceToBoard,
@@ -34,6 +35,7 @@ import {
   purchaseCard,
   createPieceFromCard,
   refreshShop,
+  drawCardOfCost,
   canMerge,
   mergePieces,
   findMergeCandidates,
@@ -42,9 +44,24 @@ import { getSynergyProgress, SynergyProgress } from '../engine/synergy';
 import {
   calculateRoundIncome,
   updatePlayerStreaks,
-  calculateSellPrice,
+  getSellRefund,
   getUnitCap,
 } from '../engine/economy';
+import {
+  canEquipItem,
+  equipItem,
+  getMergeOverflowItems,
+  rollItem,
+  shouldDropItem,
+} from '../engine/items';
+import { PveReward } from '../engine/pve';
+import { getRoundStartRefreshCost, rollCommanderOffer } from '../engine/commanders';
+import {
+  AUGMENT_DEFINITIONS,
+  getAugmentPicksDue,
+  getBenchSize,
+  rollAugmentOffer,
+} from '../engine/augments';
 
 // =============================================
 // Game Store Types
@@ -66,6 +83,16 @@ interface GameState {
   bench: Piece[];
   selectedPieceId: string | null;
 
+  // Items earned but not attached to a piece yet
+  itemBench: ItemId[];
+
+  // Commanders offered at match start (empty once one is picked)
+  commanderOffer: CommanderId[];
+
+  // Augments offered this round (empty once one is picked)
+  augmentOffer: AugmentId[];
+  augmentOfferRound: number | null; // Round the last offer was made in
+
   // Shop
   shop: ShopState;
   cardPool: Map<UnitTypeId, number>;
@@ -110,6 +137,17 @@ interface GameActions {
   returnToBench: (pieceId: string) => void;
   sellPiece: (pieceId: string) => void;
 
+  // Items
+  equipItem: (itemIndex: number, pieceId: string) => void;
+
+  // Commander
+  offerCommanders: () => void;
+  chooseCommander: (commanderId: CommanderId) => void;
+
+  // Augments
+  offerAugments: (round: number) => void;
+  chooseAugment: (augmentId: AugmentId) => void;
+
   // Merge
   checkAndMerge: () => void;
 
@@ -130,6 +168,7 @@ interface GameActions {
   // Player Updates
   updatePlayerStats: (playerId: string, updates: Partial<Player>) => void;
   applyBattleResult: (result: BattleResult) => void;
+  applyPveReward: (reward: PveReward) => void;
 
   // Sync
   syncFromServer: (data: Partial<GameState>) => void;
@@ -151,6 +190,10 @@ const initialState: GameState = {
   board: createEmptyBoard(),
   bench: [],
   selectedPieceId: null,
+  itemBench: [],
+  commanderOffer: [],
+  augmentOffer: [],
+  augmentOfferRound: null,
   shop: { cards: [], refreshCost: 2 },
   cardPool: createCardPool(),
   isShopLocked: false,
@@ -205,6 +248,8 @@ export const useGameStore = create<GameStore>()(
               hp: existingCurrentPlayer.hp,
               winStreak: existingCurrentPlayer.winStreak,
               loseStreak: existingCurrentPlayer.loseStreak,
+              commanderId: existingCurrentPlayer.commanderId ?? p.commanderId,
+              augments: existingCurrentPlayer.augments,
             };
           }
           return p;
@@ -236,7 +281,7 @@ export const useGameStore = create<GameStore>()(
         }
 
         // Check bench space
-        if (state.bench.length >= BENCH_SIZE) {
+        if (state.bench.length >= getBenchSize(state.currentPlayer.augments)) {
           console.log('[Store] Bench full');
           return;
         }
@@ -406,7 +451,8 @@ export const useGameStore = create<GameStore>()(
     returnToBench: pieceId =>
       set(state => {
         const piece = state.board.pieces[pieceId];
-        if (!piece || state.bench.length >= BENCH_SIZE) return;
+        if (!piece || !state.currentPlayer) return;
+        if (state.bench.length >= getBenchSize(state.currentPlayer.augments)) return;
 
         state.board = removePieceFromBoard(state.board, pieceId);
 
@@ -430,8 +476,7 @@ export const useGameStore = create<GameStore>()(
         const piece = state.board.pieces[pieceId] || state.bench.find(p => p.id === pieceId);
         if (!piece) return;
 
-        const def = UNIT_DEFINITIONS[piece.typeId];
-        const sellPrice = calculateSellPrice(def.cost, piece.level);
+        const refund = getSellRefund(piece);
 
         if (piece.isOnBoard) {
           state.board = removePieceFromBoard(state.board, pieceId);
@@ -439,7 +484,7 @@ export const useGameStore = create<GameStore>()(
           state.bench = state.bench.filter(p => p.id !== pieceId);
         }
 
-        const newMoney = state.currentPlayer.money + sellPrice;
+        const newMoney = state.currentPlayer.money + refund.gold;
         state.currentPlayer.money = newMoney;
 
         // Also update in players array
@@ -450,8 +495,10 @@ export const useGameStore = create<GameStore>()(
 
         // Return to pool
         const poolCount = state.cardPool.get(piece.typeId) || 0;
-        const returnCount = Math.pow(3, piece.level - 1); // 1 for 1*, 3 for 2*, 9 for 3*
-        state.cardPool.set(piece.typeId, poolCount + returnCount);
+        state.cardPool.set(piece.typeId, poolCount + refund.poolCards);
+
+        // Items go back to the item bench
+        state.itemBench.push(...refund.items);
 
         // Update synergies - only count BOARD units
         const boardPiecesForSynergy = getPiecesByOwner(state.board, state.currentUserId!);
@@ -467,6 +514,118 @@ export const useGameStore = create<GameStore>()(
         }
       }),
 
+    // Items - attached during preparation only
+    equipItem: (itemIndex, pieceId) =>
+      set(state => {
+        if (state.phase !== 'preparation') return;
+
+        const itemId = state.itemBench[itemIndex];
+        const boardPiece = state.board.pieces[pieceId];
+        const benchIndex = state.bench.findIndex(p => p.id === pieceId);
+        const piece = boardPiece || state.bench[benchIndex];
+        if (!itemId || !piece || !canEquipItem(piece)) return;
+
+        const equipped = equipItem(piece, itemId);
+        if (boardPiece) {
+          state.board.pieces[pieceId] = equipped;
+        } else {
+          state.bench[benchIndex] = equipped;
+        }
+        state.itemBench.splice(itemIndex, 1);
+      }),
+
+    // Commander - offered once, at match start
+    offerCommanders: () =>
+      set(state => {
+        if (!state.currentPlayer || state.currentPlayer.commanderId) return;
+        if (state.commanderOffer.length > 0) return;
+        state.commanderOffer = rollCommanderOffer();
+      }),
+
+    chooseCommander: commanderId =>
+      set(state => {
+        if (!state.currentPlayer || state.currentPlayer.commanderId) return;
+        if (!state.commanderOffer.includes(commanderId)) return;
+
+        state.currentPlayer.commanderId = commanderId;
+        state.commanderOffer = [];
+
+        // Also update in players array
+        const playerIndex = state.players.findIndex(p => p.id === state.currentUserId);
+        if (playerIndex !== -1) {
+          state.players[playerIndex].commanderId = commanderId;
+        }
+
+        // The board carries the commander into battle
+        state.board.commanderId = commanderId;
+
+        // Picked during the first preparation - its shop perks apply this round
+        if (state.phase === 'preparation') {
+          state.shop.refreshCost = getRoundStartRefreshCost(commanderId);
+        }
+
+        // Sync commander to database (fire and forget)
+        const matchId = state.matchId;
+        const playerId = state.currentUserId;
+        if (matchId && playerId) {
+          setPlayerCommander(matchId, playerId, commanderId).catch(err => {
+            console.warn('[Store] Failed to sync commander to database:', err);
+          });
+        }
+      }),
+
+    // Augments - offered on augment rounds, one pick per round
+    // Rolled at most once per round, however often the preparation phase asks for it
+    offerAugments: round =>
+      set(state => {
+        if (!state.currentPlayer || state.augmentOfferRound === round) return;
+        if (state.augmentOffer.length > 0) return;
+        if (state.currentPlayer.augments.length >= getAugmentPicksDue(round)) return;
+        state.augmentOffer = rollAugmentOffer(state.currentPlayer.augments);
+        state.augmentOfferRound = round;
+      }),
+
+    // Only one of the augments on offer, and only during preparation
+    chooseAugment: augmentId =>
+      set(state => {
+        if (!state.currentPlayer || state.phase !== 'preparation') return;
+        if (!state.augmentOffer.includes(augmentId)) return;
+
+        const augments = [...state.currentPlayer.augments, augmentId];
+        state.currentPlayer.augments = augments;
+        state.augmentOffer = [];
+
+        // Also update in players array
+        const playerIndex = state.players.findIndex(p => p.id === state.currentUserId);
+        if (playerIndex !== -1) {
+          state.players[playerIndex].augments = augments;
+        }
+
+        // The board carries the augments into battle
+        state.board.augments = augments;
+
+        // Free unit onto the bench (skipped when the bench is full)
+        const { freeUnitCost } = AUGMENT_DEFINITIONS[augmentId];
+        const card = freeUnitCost ? drawCardOfCost(freeUnitCost, state.cardPool) : null;
+        if (card && state.bench.length < getBenchSize(augments)) {
+          const piece = createPieceFromCard(card, state.currentUserId!, state.matchId!);
+          const usedSlots = new Set(state.bench.map(p => p.benchSlot));
+          let slot = 0;
+          while (usedSlots.has(slot)) slot++;
+          piece.benchSlot = slot;
+          state.bench.push(piece);
+        }
+
+        // Sync augments to database (fire and forget)
+        const matchId = state.matchId;
+        const playerId = state.currentUserId;
+        if (matchId && playerId) {
+          setPlayerAugments(matchId, playerId, augments).catch(err => {
+            console.warn('[Store] Failed to sync augments to database:', err);
+          });
+        }
+      }),
+
     // Merge
     checkAndMerge: () =>
       set(state => {
@@ -480,6 +639,7 @@ export const useGameStore = create<GameStore>()(
           if (group.length >= 3 && canMerge(group.slice(0, 3))) {
             const [p1, p2, p3] = group.slice(0, 3);
             const merged = mergePieces([p1, p2, p3]);
+            state.itemBench.push(...getMergeOverflowItems([p1, p2, p3]));
 
             // Remove original pieces
             for (const p of [p1, p2, p3]) {
@@ -524,6 +684,7 @@ export const useGameStore = create<GameStore>()(
           if (state.currentPlayer && !state.isShopLocked) {
             state.shop = createShopState(state.currentPlayer.level, state.cardPool);
           }
+          state.shop.refreshCost = getRoundStartRefreshCost(state.currentPlayer?.commanderId);
         }
       }),
 
@@ -556,11 +717,11 @@ export const useGameStore = create<GameStore>()(
         state.battleResult = result;
       }),
 
+    // The result stays for the settlement screen until the next battle starts
     clearBattle: () =>
       set(state => {
         state.battleBoard = null;
         state.battleEvents = [];
-        state.battleResult = null;
         state.currentOpponent = null;
       }),
 
@@ -593,13 +754,18 @@ export const useGameStore = create<GameStore>()(
         if (!isWinner && !isDraw) {
           state.currentPlayer.hp = Math.max(0, state.currentPlayer.hp - result.damageDealt);
         } else if (isDraw) {
-          state.currentPlayer.hp = Math.max(0, state.currentPlayer.hp - 5);
+          state.currentPlayer.hp = Math.max(0, state.currentPlayer.hp - result.damageDealt);
         }
 
         // Calculate income
         const income = calculateRoundIncome(state.currentPlayer, result, isWinner);
         state.currentPlayer.money += income;
 
+        // Item drop every few rounds
+        if (shouldDropItem(state.turnNumber)) {
+          state.itemBench.push(rollItem());
+        }
+
         // Check if eliminated
         if (state.currentPlayer.hp <= 0) {
           state.currentPlayer.isAlive = false;
@@ -629,7 +795,7 @@ export const useGameStore = create<GameStore>()(
             if (pid !== state.currentUserId) {
               const idx = state.players.findIndex(p => p.id === pid);
               if (idx !== -1) {
-                state.players[idx].hp = Math.max(0, state.players[idx].hp - 5);
+                state.players[idx].hp = Math.max(0, state.players[idx].hp - result.damageDealt);
                 state.players[idx].isAlive = state.players[idx].hp > 0;
               }
             }
@@ -647,6 +813,34 @@ export const useGameStore = create<GameStore>()(
         }
       }),
 
+    // Gold and items for beating a PvE wave
+    applyPveReward: reward =>
+      set(state => {
+        if (!state.currentPlayer) return;
+
+        for (let i = 0; i < reward.items; i++) {
+          state.itemBench.push(rollItem());
+        }
+
+        const newMoney = state.currentPlayer.money + reward.gold;
+        state.currentPlayer.money = newMoney;
+
+        // Also update in players array
+        const playerIndex = state.players.findIndex(p => p.id === state.currentUserId);
+        if (playerIndex !== -1) {
+          state.players[playerIndex].money = newMoney;
+        }
+
+        // Sync money to database (fire and forget)
+        const matchId = state.matchId;
+        const playerId = state.currentUserId;
+        if (matchId && playerId) {
+          updatePlayerMoney(matchId, playerId, newMoney).catch(err => {
+            console.warn('[Store] Failed to sync money to database:', err);
+          });
+        }
+      }),
+
     // Sync
     syncFromServer: data =>
       set(state => {
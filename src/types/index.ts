@@ -16,15 +16,45 @@ export type UnitTypeId =
   | 'tank'
   | 'artillery'
   | 'anti_air'
-  | 'aircraft';
+  | 'aircraft'
+  | 'medic'
+  | 'sniper'
+  | 'flamethrower'
+  | 'paratrooper'
+  | 'heavy_bomber';
 
 export type AttackType =
   | 'melee' // Single target melee
   | 'ranged' // Single target ranged
   | 'aoe_radius' // Radius AOE
-  | 'line_sweep'; // Line sweep
+  | 'line_sweep' // Line sweep
+  | 'precision' // Single target ranged, ignores defense
+  | 'cone' // Target tile and the three tiles behind it, ignores fortification
+  | 'delayed_aoe'; // Radius AOE that lands a few turns after release
 
-export type TraitType = 'infantry' | 'engineer' | 'armor' | 'artillery' | 'air';
+export type TraitType = 'infantry' | 'engineer' | 'armor' | 'artillery' | 'air' | 'medic';
+
+// Nation a piece fights for - a second synergy axis next to its unit traits
+export type FactionId = 'us' | 'uk' | 'ussr' | 'germany' | 'japan';
+
+export interface Faction {
+  id: FactionId;
+  name: string;
+  shortName: string; // Badge on unit cards
+}
+
+// What a synergy counts: a unit trait or a faction
+export type SynergyTrait = TraitType | FactionId;
+
+// How a unit picks its target (ties go to the nearest enemy)
+export type TargetingPolicy =
+  | 'nearest' // Closest enemy
+  | 'lowest_hp' // Finish off damaged enemies
+  | 'highest_threat' // Enemy with the highest attack
+  | 'furthest_back' // Dive the enemy back line
+  | 'prefer_aircraft' // Air units first, then nearest
+  | 'clustered' // Enemy whose AOE would hit the most units
+  | 'most_injured'; // Ally missing the most HP (healers)
 
 // ==================== TRAITS ====================
 export type TraitId =
@@ -54,8 +84,10 @@ export interface UnitDefinition {
   baseSpeed: number; // 0 = cannot move
   baseRange: number;
   attackType: AttackType;
+  targeting: TargetingPolicy;
   isAirUnit: boolean;
   traits: TraitType[];
+  faction?: FactionId; // Fixed faction for this unit variant, rolled on shop cards otherwise
   description: string;
   imageUrl: string;
 }
@@ -89,9 +121,16 @@ export interface Piece {
 
   // Traits
   traits: PieceTrait[];
+  faction?: FactionId;
+
+  // Combat modifiers unlocked by star upgrades
+  modifiers?: PieceModifiers;
+
+  // Equipment attached during preparation
+  items?: ItemId[];
 
-  // Fortification - only for units that received engineer buff
-  fortification?: Fortification;
+  // Lasting battle effects (stun, suppression, ...)
+  statusEffects?: StatusEffect[];
 }
 
 export type PieceStatus = 'idle' | 'wandering' | 'moving' | 'attacking' | 'dying' | 'dead';
@@ -101,37 +140,108 @@ export interface PieceTrait {
   level: number; // Stacks based on star level, max = current star level
 }
 
-export interface Fortification {
-  armor: number;
-  remainingTurns: number;
+// ==================== STATUS EFFECTS ====================
+export type StatusEffectType =
+  | 'stun' // Cannot act
+  | 'suppression' // Deals less damage, per stack
+  | 'burning' // Takes damage over time, per stack
+  | 'pinned'; // Cannot move
+
+// What happens when an effect is applied to a piece that already has it
+export type StatusStacking =
+  | 'refresh' // Keep one stack, reset the duration
+  | 'stack' // Add a stack (up to maxStacks) and reset the duration
+  | 'ignore'; // Keep the existing effect unchanged
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  remainingTurns: number; // Battle turns left
+  stacks: number;
+  sourceId?: string; // Piece that applied it
 }
 
+// Bonuses from STAR_UPGRADES specials, all 0 for a 1-star piece
+export interface PieceModifiers {
+  aoeRadius: number; // Extra radius for aoe_radius attacks
+  sweepWidth: number; // Extra lines on each side of a line_sweep attack
+  antiAirDamage: number; // Extra damage vs aircraft
+  fortificationArmor: number; // Extra armor on sandbags built
+  fortificationDuration: number; // Extra build cycles every obstacle built stands for
+  healAmount: number; // Extra HP restored by each heal
+}
+
+// ==================== ITEMS ====================
+export type ItemId = 'radio' | 'ammo_crate' | 'camouflage_net' | 'armor_plate';
+
+// ==================== AUGMENTS ====================
+export type AugmentId =
+  | 'reserve_barracks'
+  | 'supply_drop'
+  | 'forward_observers'
+  | 'war_bonds'
+  | 'reinforced_hulls'
+  | 'veteran_riflemen';
+
 // ==================== BOARD STATE ====================
 export interface BoardState {
   pieces: Record<string, Piece>;
   piecePositions: Record<string, string>; // "x,y" -> pieceId
   size: { width: number; height: number };
+  terrain?: Record<string, TerrainType>; // "x,y" -> terrain, missing tiles are plain
+  obstacles?: Record<string, Obstacle>; // "x,y" -> engineer-built obstacle
+  commanderId?: CommanderId; // Owner's commander (player boards)
+  commanders?: Record<string, CommanderId>; // ownerId -> commander (battle boards)
+  augments?: AugmentId[]; // Owner's augments (player boards) - applied to pieces in battle
+}
+
+// ==================== TERRAIN ====================
+export type TerrainType =
+  | 'plain'
+  | 'forest' // Cover against ranged attacks
+  | 'river' // Impassable for vehicles
+  | 'trench' // Infantry defense
+  | 'crater'; // Left behind by artillery, infantry cover
+
+// ==================== OBSTACLES ====================
+export type ObstacleType =
+  | 'sandbags' // Armor for the friendly unit standing on the tile
+  | 'barbed_wire' // Slows enemy foot units, crushed by vehicles
+  | 'tank_trap'; // Impassable for enemy vehicles
+
+export interface Obstacle {
+  type: ObstacleType;
+  ownerId: string;
+  builderId: string; // Engineer that built it
+  hp: number;
+  maxHp: number;
+  armor: number; // Defense granted by sandbags, 0 for other obstacles
+  expiresAtTurn: number; // Battle turn the obstacle crumbles on
 }
 
 // ==================== SYNERGY ====================
 export interface Synergy {
   synergyId: string;
   name: string;
-  traitType: TraitType;
-  triggerCount: number;
+  traitType: SynergyTrait;
+  tiers: SynergyTier[]; // Breakpoints in ascending count - only the highest one reached applies
+}
+
+export interface SynergyTier {
+  count: number; // Pieces needed to reach this breakpoint
   effect: SynergyEffect;
   description: string;
 }
 
 export interface SynergyEffect {
-  stat?: keyof Pick<Piece, 'defense' | 'speed' | 'attack'>;
-  value?: number;
+  stat?: keyof Pick<Piece, 'defense' | 'speed' | 'attack' | 'maxHp'>;
+  value?: number; // Stat bonus, or the strength of a special effect
   special?: string; // Special effects like "fortification_buff" or "dodge_chance"
 }
 
 export interface ActiveSynergy {
   synergyId: string;
   count: number;
+  tier: number; // Breakpoints reached, 0 = none
   isActive: boolean;
 }
 
@@ -141,6 +251,7 @@ export interface ShopCard {
   typeId: UnitTypeId;
   cost: number;
   traits: PieceTrait[];
+  faction?: FactionId;
   purchased: boolean;
 }
 
@@ -149,6 +260,9 @@ export interface ShopState {
   refreshCost: number;
 }
 
+// ==================== COMMANDERS ====================
+export type CommanderId = 'eisenhower' | 'montgomery' | 'zhukov' | 'patton' | 'rommel';
+
 // ==================== PLAYER ====================
 export interface Player {
   id: string;
@@ -170,6 +284,12 @@ export interface Player {
   winStreak: number;
   loseStreak: number;
   lastOpponentId: string | null;
+
+  // Picked at match start
+  commanderId: CommanderId | null;
+
+  // Picked on augment rounds
+  augments: AugmentId[];
 }
 
 // ==================== MATCH ====================
@@ -199,25 +319,76 @@ export interface BattlePairing {
   player2Id: string;
 }
 
+// How a battle was decided
+export type BattleDecision =
+  | 'regulation' // One side was wiped out before overtime
+  | 'overtime' // One side was wiped out during overtime
+  | 'timeout'; // Both sides still standing when overtime ran out
+
+// One line of the damage a player takes for a battle
+export interface DamageBreakdownItem {
+  source: 'base' | 'draw' | 'round' | 'survivor_stars' | 'survivor_cost';
+  label: string;
+  amount: number;
+}
+
+// What one piece did over a battle
+export interface PieceBattleStats {
+  pieceId: string;
+  ownerId: string;
+  typeId: UnitTypeId;
+  level: number;
+  damageDealt: number; // HP taken off enemy pieces
+  damageTaken: number;
+  kills: number;
+  damageBlocked: number; // Damage soaked up by sandbags the piece built
+  healingDone: number; // HP restored to allies
+  tilesMoved: number;
+}
+
 export interface BattleResult {
   winnerId: string | null; // null for draw
   loserId: string | null;
   winnerSurvivors: number;
   loserSurvivors: number;
-  damageDealt: number;
+  damageDealt: number; // HP lost by the loser (by each player on a draw)
+  damageBreakdown: DamageBreakdownItem[]; // Itemised damageDealt, for the settlement screen
   isDraw: boolean;
+  decidedBy: BattleDecision;
+  pieceStats: PieceBattleStats[]; // Every piece in the battle, best performance first
   player1Id?: string; // For draw handling
   player2Id?: string;
 }
 
 export interface BattleEvent {
   turn: number;
-  type: 'move' | 'attack' | 'hit' | 'death' | 'fortification';
+  type:
+    | 'move'
+    | 'attack'
+    | 'hit'
+    | 'heal'
+    | 'death'
+    | 'obstacle_built'
+    | 'obstacle_hit'
+    | 'obstacle_destroyed'
+    | 'obstacle_expired'
+    | 'dodge'
+    | 'status_applied'
+    | 'status_expired'
+    | 'terrain_changed'
+    | 'strafe'
+    | 'bomb_dropped';
   pieceId: string;
   targetId?: string;
   from?: Position;
   to?: Position;
   damage?: number;
+  healing?: number; // HP restored to targetId (heal)
+  status?: StatusEffect; // Effect applied, expired or dealing damage (burning hits)
+  terrain?: TerrainType; // New terrain at `to` (terrain_changed)
+  width?: number; // Extra lines on each side of the run from `from` to `to` (strafe)
+  obstacle?: Obstacle; // Obstacle built at `to` (obstacle_built)
+  landsAtTurn?: number; // Turn the bomb aimed at `to` explodes (bomb_dropped)
 }
 
 // ==================== COMBAT STATE ====================
@@ -263,6 +434,14 @@ export const REFRESH_COST = 2;
 export const WAITING_TIMEOUT_SECONDS = 30;
 
 // ==================== UPGRADE FORMULAS ====================
+// Specials a star upgrade can grant - each one maps to PieceModifiers in engine/upgrades
+export type StarUpgradeSpecial =
+  | 'aoe_radius+1'
+  | 'sweep_width+1'
+  | 'anti_air_damage+1'
+  | 'fortification_armor+1_duration+1'
+  | 'heal+1';
+
 export interface StarUpgrade {
   hpBonus: number;
   attackMinBonus: number;
@@ -270,7 +449,7 @@ export interface StarUpgrade {
   defenseBonus: number;
   speedBonus: number;
   rangeBonus: number;
-  special?: string;
+  special?: StarUpgradeSpecial;
 }
 
 export const STAR_UPGRADES: Record<UnitTypeId, { star2: StarUpgrade; star3: StarUpgrade }> = {
@@ -406,4 +585,97 @@ export const STAR_UPGRADES: Record<UnitTypeId, { star2: StarUpgrade; star3: Star
       special: 'sweep_width+1',
     },
   },
+  medic: {
+    star2: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 0,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+      special: 'heal+1',
+    },
+    star3: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 0,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 1,
+      special: 'heal+1',
+    },
+  },
+  sniper: {
+    star2: {
+      hpBonus: 0,
+      attackMinBonus: 1,
+      attackMaxBonus: 1,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+    star3: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 1,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 1,
+    },
+  },
+  flamethrower: {
+    star2: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 1,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+    star3: {
+      hpBonus: 1,
+      attackMinBonus: 1,
+      attackMaxBonus: 0,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+  },
+  paratrooper: {
+    star2: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 1,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+    star3: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 0,
+      defenseBonus: 1,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+  },
+  heavy_bomber: {
+    star2: {
+      hpBonus: 2,
+      attackMinBonus: 1,
+      attackMaxBonus: 1,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+    },
+    star3: {
+      hpBonus: 1,
+      attackMinBonus: 0,
+      attackMaxBonus: 0,
+      defenseBonus: 0,
+      speedBonus: 0,
+      rangeBonus: 0,
+      special: 'aoe_radius+1',
+    },
+  },
 };
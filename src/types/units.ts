@@ -1,4 +1,4 @@
-import { UnitDefinition, Synergy } from './index';
+import { UnitDefinition, Synergy, Faction, FactionId } from './index';
 
 // =============================================
 // WW2 Auto-Chess Unit Definitions
@@ -17,6 +17,7 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 2,
     baseRange: 1,
     attackType: 'melee',
+    targeting: 'nearest',
     isAirUnit: false,
     traits: ['infantry'],
     description: 'Basic melee unit, high HP',
@@ -33,9 +34,10 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 2,
     baseRange: 1,
     attackType: 'melee',
+    targeting: 'nearest',
     isAirUnit: false,
     traits: ['engineer'],
-    description: 'Cannot attack, provides fortification to allies',
+    description: 'Cannot attack, builds sandbags, barbed wire and tank traps',
     imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/engineer.webp',
   },
   armored_car: {
@@ -49,6 +51,7 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 3,
     baseRange: 1,
     attackType: 'melee',
+    targeting: 'lowest_hp',
     isAirUnit: false,
     traits: ['armor'],
     description: 'High mobility, bonus vs infantry, countered by tanks',
@@ -65,6 +68,7 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 1,
     baseRange: 1,
     attackType: 'melee',
+    targeting: 'highest_threat',
     isAirUnit: false,
     traits: ['armor'],
     description: 'Heavy unit, high HP and attack, bonus vs armored cars',
@@ -81,6 +85,7 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 0, // Cannot move (can be 0-1 based on rules)
     baseRange: 3,
     attackType: 'aoe_radius',
+    targeting: 'clustered',
     isAirUnit: false,
     traits: ['artillery'],
     description: 'Ranged AOE, weak in melee, cannot target aircraft',
@@ -97,6 +102,7 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 1,
     baseRange: 3,
     attackType: 'aoe_radius',
+    targeting: 'prefer_aircraft',
     isAirUnit: false,
     traits: ['artillery'],
     description: '4-5 damage vs aircraft, half damage vs heavy armor',
@@ -113,11 +119,103 @@ export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
     baseSpeed: 2,
     baseRange: 2,
     attackType: 'line_sweep',
+    targeting: 'furthest_back',
     isAirUnit: true,
     traits: ['air'],
     description: 'Air unit, ignores fortifications, artillery cannot counter',
     imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/aircraft.webp',
   },
+  medic: {
+    typeId: 'medic',
+    name: 'Medic',
+    cost: 2,
+    baseHp: 3,
+    baseAttackMin: 0,
+    baseAttackMax: 0,
+    baseDefense: 0,
+    baseSpeed: 2,
+    baseRange: 2,
+    attackType: 'ranged',
+    targeting: 'most_injured',
+    isAirUnit: false,
+    traits: ['medic'],
+    description: 'Cannot attack, heals the most injured ally in range',
+    // No medic art in the images bucket yet - shares the infantry portrait
+    imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/infantry.webp',
+  },
+  sniper: {
+    typeId: 'sniper',
+    name: 'Sniper',
+    cost: 3,
+    baseHp: 2,
+    baseAttackMin: 3,
+    baseAttackMax: 4,
+    baseDefense: 0,
+    baseSpeed: 1,
+    baseRange: 4,
+    attackType: 'precision',
+    targeting: 'highest_threat',
+    isAirUnit: false,
+    traits: ['infantry'],
+    description: 'Long range single shots that ignore defense, fragile up close',
+    // No sniper art in the images bucket yet - shares the infantry portrait
+    imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/infantry.webp',
+  },
+  flamethrower: {
+    typeId: 'flamethrower',
+    name: 'Flamethrower',
+    cost: 2,
+    baseHp: 4,
+    baseAttackMin: 2,
+    baseAttackMax: 3,
+    baseDefense: 0,
+    baseSpeed: 2,
+    baseRange: 1,
+    attackType: 'cone',
+    targeting: 'nearest',
+    isAirUnit: false,
+    traits: ['infantry'],
+    description: 'Burns a cone of tiles, ignores cover and sandbags, cannot target aircraft',
+    // No flamethrower art in the images bucket yet - shares the infantry portrait
+    imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/infantry.webp',
+  },
+  paratrooper: {
+    typeId: 'paratrooper',
+    name: 'Paratrooper',
+    cost: 2,
+    baseHp: 3,
+    baseAttackMin: 2,
+    baseAttackMax: 3,
+    baseDefense: 0,
+    baseSpeed: 2,
+    baseRange: 1,
+    attackType: 'melee',
+    targeting: 'furthest_back',
+    isAirUnit: false,
+    traits: ['infantry'],
+    description: "Drops onto the enemy's back row when the battle starts",
+    // No paratrooper art in the images bucket yet - shares the infantry portrait
+    imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/infantry.webp',
+  },
+  heavy_bomber: {
+    typeId: 'heavy_bomber',
+    name: 'Heavy Bomber',
+    cost: 4,
+    baseHp: 6,
+    baseAttackMin: 4,
+    baseAttackMax: 5,
+    baseDefense: 1,
+    baseSpeed: 1,
+    baseRange: 3,
+    attackType: 'delayed_aoe',
+    targeting: 'clustered',
+    isAirUnit: true,
+    traits: ['air'],
+    faction: 'us',
+    description: 'Air unit, bombs land on the target area a few turns after release and stun survivors',
+    // No heavy bomber art in the images bucket yet - shares the aircraft portrait
+    imageUrl: 'https://zwtjw5tm.us-west.insforge.app/api/storage/buckets/images/objects/aircraft.webp',
+  },
 };
 
 // =============================================
@@ -129,41 +227,103 @@ export const SYNERGY_DEFINITIONS: Synergy[] = [
     synergyId: 'infantry_synergy',
     name: 'Infantry',
     traitType: 'infantry',
-    triggerCount: 3,
-    effect: { stat: 'defense', value: 1 },
-    description: 'Infantry x3: All infantry +1 defense',
+    tiers: [
+      {
+        count: 3,
+        effect: { stat: 'defense', value: 1 },
+        description: 'Infantry x3: All infantry +1 defense',
+      },
+      {
+        count: 6,
+        effect: { stat: 'defense', value: 2 },
+        description: 'Infantry x6: All infantry +2 defense',
+      },
+    ],
   },
   {
     synergyId: 'engineer_synergy',
     name: 'Engineer',
     traitType: 'engineer',
-    triggerCount: 2,
-    effect: { special: 'fortification_buff' },
-    description: 'Engineer x2: Fortification +1 armor, +1 duration',
+    tiers: [
+      {
+        count: 2,
+        effect: { special: 'fortification_buff', value: 1 },
+        description: 'Engineer x2: Fortifications +1 armor, +1 HP',
+      },
+      {
+        count: 4,
+        effect: { special: 'fortification_buff', value: 2 },
+        description: 'Engineer x4: Fortifications +2 armor, +2 HP',
+      },
+    ],
   },
   {
     synergyId: 'armor_synergy',
     name: 'Armor',
     traitType: 'armor',
-    triggerCount: 2,
-    effect: { stat: 'speed', value: 1 },
-    description: 'Armor x2: Armored cars and tanks +1 speed',
+    tiers: [
+      {
+        count: 2,
+        effect: { stat: 'speed', value: 1 },
+        description: 'Armor x2: Armored cars and tanks +1 speed',
+      },
+      {
+        count: 4,
+        effect: { stat: 'speed', value: 2 },
+        description: 'Armor x4: Armored cars and tanks +2 speed',
+      },
+    ],
   },
   {
     synergyId: 'artillery_synergy',
     name: 'Artillery',
     traitType: 'artillery',
-    triggerCount: 2,
-    effect: { stat: 'attack', value: 1 },
-    description: 'Artillery x2: All artillery +1 attack',
+    tiers: [
+      {
+        count: 2,
+        effect: { stat: 'attack', value: 1 },
+        description: 'Artillery x2: All artillery +1 attack',
+      },
+      {
+        count: 4,
+        effect: { stat: 'attack', value: 2 },
+        description: 'Artillery x4: All artillery +2 attack',
+      },
+    ],
   },
   {
     synergyId: 'air_synergy',
     name: 'Air Force',
     traitType: 'air',
-    triggerCount: 2,
-    effect: { special: 'dodge_chance_25' },
-    description: 'Air x2: Aircraft 25% chance to dodge non-AA damage',
+    tiers: [
+      {
+        count: 2,
+        effect: { special: 'dodge_chance', value: 0.25 },
+        description: 'Air x2: Air units 25% chance to dodge non-AA damage',
+      },
+      {
+        count: 4,
+        effect: { special: 'dodge_chance', value: 0.4 },
+        description: 'Air x4: Air units 40% chance to dodge non-AA damage',
+      },
+    ],
+  },
+  {
+    synergyId: 'medic_synergy',
+    name: 'Field Hospital',
+    traitType: 'medic',
+    tiers: [
+      {
+        count: 2,
+        effect: { special: 'heal_buff', value: 1 },
+        description: 'Medic x2: Medics heal +1 HP',
+      },
+      {
+        count: 4,
+        effect: { special: 'heal_buff', value: 2 },
+        description: 'Medic x4: Medics heal +2 HP',
+      },
+    ],
   },
 ];
 
@@ -176,13 +336,34 @@ export const TRAIT_DEFINITIONS = {
     id: 'armor_pierce' as const,
     name: 'Armor Pierce',
     description: '+1 damage vs armor per star level',
-    applicableTo: ['infantry', 'armored_car', 'tank', 'artillery', 'anti_air', 'aircraft'] as const,
+    applicableTo: [
+      'infantry',
+      'armored_car',
+      'tank',
+      'artillery',
+      'anti_air',
+      'aircraft',
+      'sniper',
+      'flamethrower',
+      'paratrooper',
+      'heavy_bomber',
+    ] as const,
   },
   blitz: {
     id: 'blitz' as const,
     name: 'Blitz',
     description: '30% chance per star level to attack again',
-    applicableTo: ['infantry', 'armored_car', 'tank', 'artillery', 'anti_air', 'aircraft'] as const,
+    applicableTo: [
+      'infantry',
+      'armored_car',
+      'tank',
+      'artillery',
+      'anti_air',
+      'aircraft',
+      'sniper',
+      'flamethrower',
+      'paratrooper',
+    ] as const,
   },
   heavy_cannon: {
     id: 'heavy_cannon' as const,
@@ -194,7 +375,7 @@ export const TRAIT_DEFINITIONS = {
     id: 'sniper' as const,
     name: 'Sniper',
     description: '+1 range per star level',
-    applicableTo: ['artillery', 'aircraft'] as const,
+    applicableTo: ['artillery', 'aircraft', 'sniper', 'heavy_bomber'] as const,
   },
   tenacity: {
     id: 'tenacity' as const,
@@ -208,10 +389,27 @@ export const TRAIT_DEFINITIONS = {
       'artillery',
       'anti_air',
       'aircraft',
+      'medic',
+      'sniper',
+      'flamethrower',
+      'paratrooper',
+      'heavy_bomber',
     ] as const,
   },
 };
 
+// =============================================
+// Faction Definitions
+// =============================================
+
+export const FACTION_DEFINITIONS: Record<FactionId, Faction> = {
+  us: { id: 'us', name: 'United States', shortName: 'US' },
+  uk: { id: 'uk', name: 'United Kingdom', shortName: 'UK' },
+  ussr: { id: 'ussr', name: 'Soviet Union', shortName: 'USSR' },
+  germany: { id: 'germany', name: 'Germany', shortName: 'GER' },
+  japan: { id: 'japan', name: 'Japan', shortName: 'JPN' },
+};
+
 // Get unit definition by type
 export function getUnitDefinition(typeId: string): UnitDefinition | undefined {
   return UNIT_DEFINITIONS[typeId];
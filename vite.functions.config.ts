@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Bundles InsForge edge functions from the shared TypeScript engine
+export default defineConfig({
+  build: {
+    outDir: 'functions/dist',
+    emptyOutDir: true,
+    minify: false,
+    lib: {
+      entry: 'functions/src/run-battle.ts',
+      formats: ['cjs'],
+      fileName: () => 'run-battle.js',
+    },
+    rollupOptions: {
+      output: { exports: 'default' },
+    },
+  },
+});